@@ -0,0 +1,200 @@
+import { hasBearerSecret } from '../../src/core/auth';
+import { createConsoleLogger } from '../../src/core/logger';
+import {
+  NOTIFICATIONS_FILE,
+  Notification,
+  NotificationValidationError,
+  SCHEDULED_NOTIFICATIONS_FILE,
+  TARGETED_NOTIFICATIONS_FILE,
+  isScheduled,
+  notificationFile,
+  validateNotification,
+} from '../../src/core/notifications';
+import { FeedStore, LeaseHeldError, createGitHubStoreFromEnv, readOptional, updateFile } from '../../src/core/store';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const LEASE_TTL_MS = 30 * 1000;
+const LEASE_ATTEMPTS = 3;
+
+const writeLog = createConsoleLogger();
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+class RequestError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'RequestError';
+    this.status = status;
+  }
+}
+
+// Fills the fields authors rarely set by hand before validating
+function withDefaults(body: any, id?: string): any {
+  return {
+    date: new Date().toISOString().slice(0, 10),
+    isRead: false,
+    isSticky: false,
+    expiresAt: null,
+    ...body,
+    ...(id ? { id } : {}),
+  };
+}
+
+function findIndex(notifications: Notification[], id: string): number {
+  const index = notifications.findIndex((n) => n.id === id);
+  if (index === -1) {
+    throw new RequestError(404, `Notification ${id} not found`);
+  }
+  return index;
+}
+
+// Scheduled entries live in their own file until the cron publishes them, targeted ones
+// in a file kept out of the static feed
+async function locate(store: FeedStore, id: string): Promise<string | null> {
+  for (const fileName of [NOTIFICATIONS_FILE, TARGETED_NOTIFICATIONS_FILE, SCHEDULED_NOTIFICATIONS_FILE]) {
+    const notifications = await readOptional<Notification[]>(store, fileName, []);
+    if (notifications.some((n) => n.id === id)) {
+      return fileName;
+    }
+  }
+  return null;
+}
+
+async function updateNotifications(
+  store: FeedStore,
+  fileName: string,
+  message: string,
+  update: (notifications: Notification[]) => Notification[]
+): Promise<void> {
+  const options = { ttlMs: LEASE_TTL_MS, attempts: LEASE_ATTEMPTS, message };
+  await updateFile<Notification[]>(store, fileName, [], options, writeLog, update);
+}
+
+// ============================================================================
+// VERCEL SERVERLESS HANDLER
+// ============================================================================
+
+// All methods require `Authorization: Bearer <ADMIN_SECRET>`
+// GET                  -> { notifications, targeted, scheduled }
+// POST { ...notification }      -> creates it (409 if the id exists); a future publishAt schedules it
+// PUT ?id= { ...notification }  -> replaces it
+// PATCH ?id= { expiresAt? }     -> expires it now, or at the given time
+// DELETE ?id=          -> removes it
+export default async function handler(req: any, res: any) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (!['GET', 'POST', 'PUT', 'PATCH', 'DELETE'].includes(req.method)) {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!hasBearerSecret(req, process.env.ADMIN_SECRET)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  if (!process.env.GITHUB_TOKEN || !process.env.GITHUB_REPO) {
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+
+  const id = req.query?.id;
+  if (['PUT', 'PATCH', 'DELETE'].includes(req.method) && (typeof id !== 'string' || id.length === 0)) {
+    return res.status(400).json({ error: 'id query parameter required' });
+  }
+
+  const store = createGitHubStoreFromEnv(writeLog);
+
+  try {
+    if (req.method === 'GET') {
+      const notifications = await readOptional<Notification[]>(store, NOTIFICATIONS_FILE, []);
+      const targeted = await readOptional<Notification[]>(store, TARGETED_NOTIFICATIONS_FILE, []);
+      const scheduled = await readOptional<Notification[]>(store, SCHEDULED_NOTIFICATIONS_FILE, []);
+      return res.status(200).json({ notifications, targeted, scheduled });
+    }
+
+    if (req.method === 'POST') {
+      const notification = validateNotification(withDefaults(req.body));
+      if (await locate(store, notification.id)) {
+        throw new RequestError(409, `Notification ${notification.id} already exists`);
+      }
+      const fileName = notificationFile(notification);
+      await updateNotifications(store, fileName, `Add notification ${notification.id}`, (notifications) => {
+        if (notifications.some((n) => n.id === notification.id)) {
+          throw new RequestError(409, `Notification ${notification.id} already exists`);
+        }
+        return [notification, ...notifications];
+      });
+      writeLog(`✓ Notification ${notification.id} ${fileName === SCHEDULED_NOTIFICATIONS_FILE ? `scheduled for ${notification.publishAt}` : 'created'}`);
+      return res.status(201).json({ notification });
+    }
+
+    const fileName = await locate(store, id);
+    if (!fileName) {
+      throw new RequestError(404, `Notification ${id} not found`);
+    }
+
+    if (req.method === 'PUT') {
+      if (req.body?.id !== undefined && req.body.id !== id) {
+        throw new RequestError(400, 'id in body does not match the id query parameter');
+      }
+      const notification = validateNotification(withDefaults(req.body, id));
+      if (fileName !== SCHEDULED_NOTIFICATIONS_FILE && isScheduled(notification)) {
+        throw new RequestError(400, `Notification ${id} is already live; delete it and create a scheduled one instead`);
+      }
+      if (fileName !== SCHEDULED_NOTIFICATIONS_FILE && notificationFile(notification) !== fileName) {
+        throw new RequestError(400, `Notification ${id} is already live; delete it to add or remove its audience`);
+      }
+      await updateNotifications(store, fileName, `Update notification ${id}`, (notifications) => {
+        const index = findIndex(notifications, id);
+        return notifications.map((n, i) => (i === index ? notification : n));
+      });
+      writeLog(`✓ Notification ${id} updated`);
+      return res.status(200).json({ notification });
+    }
+
+    if (req.method === 'PATCH') {
+      const expiresAt = req.body?.expiresAt ?? new Date().toISOString();
+      let expired: Notification | undefined;
+      await updateNotifications(store, fileName, `Expire notification ${id}`, (notifications) => {
+        const index = findIndex(notifications, id);
+        expired = validateNotification({ ...notifications[index], expiresAt });
+        return notifications.map((n, i) => (i === index ? expired! : n));
+      });
+      writeLog(`✓ Notification ${id} expires at ${expiresAt}`);
+      return res.status(200).json({ notification: expired });
+    }
+
+    await updateNotifications(store, fileName, `Remove notification ${id}`, (notifications) => {
+      const index = findIndex(notifications, id);
+      return notifications.filter((_, i) => i !== index);
+    });
+    writeLog(`✓ Notification ${id} removed`);
+    return res.status(200).json({ deleted: true });
+  } catch (error) {
+    if (error instanceof NotificationValidationError) {
+      return res.status(400).json({ error: 'Invalid notification', details: error.errors });
+    }
+    if (error instanceof RequestError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof LeaseHeldError) {
+      res.setHeader('Retry-After', '30');
+      return res.status(503).json({ error: 'Data update in progress, retry shortly' });
+    }
+    return res.status(500).json({
+      error: 'Failed to update notifications',
+      details: String(error),
+    });
+  }
+}
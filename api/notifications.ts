@@ -0,0 +1,80 @@
+import * as path from 'path';
+import { createConsoleLogger } from '../src/core/logger';
+import {
+  NOTIFICATIONS_FILE,
+  Notification,
+  NotificationClient,
+  TARGETED_NOTIFICATIONS_FILE,
+  localizeNotification,
+  parseAcceptLanguage,
+  selectForClient,
+} from '../src/core/notifications';
+import { createFileStore, readOptional } from '../src/core/store';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// The deployment's own copies of notifications.json (also served statically) and of
+// notifications-targeted.json (only readable here)
+const DATA_DIR = path.join(__dirname, '..');
+
+const writeLog = createConsoleLogger();
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function queryString(value: unknown): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  return typeof first === 'string' && first.length > 0 ? first : undefined;
+}
+
+// ============================================================================
+// VERCEL SERVERLESS HANDLER
+// ============================================================================
+
+// GET ?appVersion=1.0.5&platform=android&locale=ko-KR&wallet=<address>&lang=ko
+//   -> { notifications } filtered by each entry's audience; every parameter is optional.
+// Text is localized from `lang`, else Accept-Language, else `locale`.
+export default async function handler(req: any, res: any) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const query = req.query || {};
+  const client: NotificationClient = {
+    appVersion: queryString(query.appVersion),
+    platform: queryString(query.platform)?.toLowerCase(),
+    locale: queryString(query.locale),
+    wallet: queryString(query.wallet),
+  };
+
+  const lang = queryString(query.lang);
+  const acceptLanguage = parseAcceptLanguage(req.headers?.['accept-language']);
+  const languages = lang ? [lang] : acceptLanguage.length > 0 ? acceptLanguage : client.locale ? [client.locale] : [];
+
+  try {
+    const store = createFileStore(DATA_DIR, writeLog);
+    const targeted = await readOptional<Notification[]>(store, TARGETED_NOTIFICATIONS_FILE, []);
+    const notifications = [...targeted, ...await readOptional<Notification[]>(store, NOTIFICATIONS_FILE, [])]
+      .sort((a, b) => b.date.localeCompare(a.date));
+    res.setHeader('Vary', 'Accept-Language');
+    return res.status(200).json({
+      notifications: selectForClient(notifications, client).map((n) => localizeNotification(n, languages)),
+    });
+  } catch (error) {
+    return res.status(500).json({
+      error: 'Failed to load notifications',
+      details: String(error),
+    });
+  }
+}
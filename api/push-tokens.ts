@@ -0,0 +1,129 @@
+import { createConsoleLogger } from '../src/core/logger';
+import {
+  ALL_PUSH_TOPICS,
+  DEFAULT_PUSH_TOPICS,
+  EMPTY_PUSH_DEVICES,
+  PUSH_DEVICES_FILE,
+  PushDevice,
+  PushDevicesData,
+  PushProviderName,
+  PushTopic,
+  encryptPushToken,
+  isValidPushToken,
+  pushDeviceKey,
+} from '../src/core/push';
+import { LeaseHeldError, createDeviceStoreFromEnv, updateFile } from '../src/core/store';
+import { isValidDeviceId, watchlistKey } from '../src/core/watchlists';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Registrations commit to the private device repo, whose lease the data cron never takes
+const LEASE_TTL_MS = 30 * 1000;
+const LEASE_ATTEMPTS = 3;
+
+const writeLog = createConsoleLogger();
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function parseTopics(value: unknown): PushTopic[] {
+  if (value === undefined) {
+    return DEFAULT_PUSH_TOPICS;
+  }
+  if (!Array.isArray(value) || value.some((topic) => !ALL_PUSH_TOPICS.includes(topic))) {
+    throw new Error(`topics must be an array of: ${ALL_PUSH_TOPICS.join(', ')}`);
+  }
+  return [...new Set<PushTopic>(value)];
+}
+
+// ============================================================================
+// VERCEL SERVERLESS HANDLER
+// ============================================================================
+
+// POST { token, provider: "expo" | "fcm", topics?, deviceId? } -> registers or updates the device
+// DELETE { token }                                            -> unregisters it
+export default async function handler(req: any, res: any) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (
+    !process.env.PUSH_TOKEN_SECRET ||
+    !process.env.GITHUB_DEVICE_REPO ||
+    !(process.env.GITHUB_DEVICE_TOKEN || process.env.GITHUB_TOKEN)
+  ) {
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+
+  const { token, provider, topics, deviceId } = req.body || {};
+  if (typeof token !== 'string' || token.length === 0) {
+    return res.status(400).json({ error: 'token required' });
+  }
+
+  const key = pushDeviceKey(token);
+  const store = createDeviceStoreFromEnv(writeLog);
+
+  try {
+    if (req.method === 'DELETE') {
+      const options = { ttlMs: LEASE_TTL_MS, attempts: LEASE_ATTEMPTS, message: `Unregister push device ${key.slice(0, 8)}` };
+      await updateFile<PushDevicesData>(store, PUSH_DEVICES_FILE, EMPTY_PUSH_DEVICES, options, writeLog, (data) => {
+        const { [key]: _removed, ...devices } = data.devices;
+        return { devices };
+      });
+      return res.status(200).json({ deleted: true });
+    }
+
+    if (provider !== 'expo' && provider !== 'fcm') {
+      return res.status(400).json({ error: 'provider must be "expo" or "fcm"' });
+    }
+    if (!isValidPushToken(provider as PushProviderName, token)) {
+      return res.status(400).json({ error: `Invalid ${provider} push token` });
+    }
+    if (deviceId !== undefined && !isValidDeviceId(deviceId)) {
+      return res.status(400).json({ error: 'deviceId must be 16-128 characters of [A-Za-z0-9_-]' });
+    }
+
+    let parsedTopics: PushTopic[];
+    try {
+      parsedTopics = parseTopics(topics);
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+    }
+
+    const device: PushDevice = {
+      provider,
+      token: encryptPushToken(token),
+      topics: parsedTopics,
+      ...(deviceId ? { watchlistKey: watchlistKey(deviceId) } : {}),
+      registeredAt: new Date().toISOString(),
+    };
+
+    const options = { ttlMs: LEASE_TTL_MS, attempts: LEASE_ATTEMPTS, message: `Register push device ${key.slice(0, 8)}` };
+    await updateFile<PushDevicesData>(store, PUSH_DEVICES_FILE, EMPTY_PUSH_DEVICES, options, writeLog, (data) => ({
+      devices: { ...data.devices, [key]: device },
+    }));
+    writeLog(`✓ Push device ${key.slice(0, 8)} registered (${provider}, ${parsedTopics.join(', ')})`);
+
+    return res.status(200).json({ registered: true, topics: parsedTopics });
+  } catch (error) {
+    if (error instanceof LeaseHeldError) {
+      res.setHeader('Retry-After', '30');
+      return res.status(503).json({ error: 'Device update in progress, retry shortly' });
+    }
+    return res.status(500).json({
+      error: 'Failed to update push registration',
+      details: String(error),
+    });
+  }
+}
@@ -0,0 +1,127 @@
+import * as path from 'path';
+import { createConsoleLogger } from '../src/core/logger';
+import {
+  LeaseHeldError,
+  createDeviceStoreFromEnv,
+  createFileStore,
+  readOptional,
+  updateFile,
+} from '../src/core/store';
+import {
+  EMPTY_WATCHLISTS,
+  WATCHLISTS_FILE,
+  WATCHLIST_ALERTS_FILE,
+  WatchlistAlertsData,
+  WatchlistsData,
+  isValidDeviceId,
+  parseWatchlistInput,
+  watchlistKey,
+} from '../src/core/watchlists';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Watchlist writes are a single small commit to the device repo; only other device writes hold its lease
+const LEASE_TTL_MS = 30 * 1000;
+const LEASE_ATTEMPTS = 3;
+
+// Alerts are served from the deployed copy the cron publishes, never through the GitHub API
+const DATA_DIR = path.join(__dirname, '..');
+
+const writeLog = createConsoleLogger();
+
+// ============================================================================
+// WATCHLIST UPDATES
+// ============================================================================
+
+async function updateWatchlists(
+  message: string,
+  update: (data: WatchlistsData) => WatchlistsData
+): Promise<void> {
+  const store = createDeviceStoreFromEnv(writeLog);
+  const options = { ttlMs: LEASE_TTL_MS, attempts: LEASE_ATTEMPTS, message };
+  await updateFile(store, WATCHLISTS_FILE, EMPTY_WATCHLISTS, options, writeLog, update);
+}
+
+// ============================================================================
+// VERCEL SERVERLESS HANDLER
+// ============================================================================
+
+// GET ?deviceId=     -> { watchlist, alerts }
+// PUT { deviceId, assets, exchanges? } -> stores the watchlist
+// DELETE ?deviceId=  -> removes it
+export default async function handler(req: any, res: any) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (!['GET', 'PUT', 'DELETE'].includes(req.method)) {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const deviceId = req.method === 'PUT' ? req.body?.deviceId : req.query.deviceId;
+  if (!isValidDeviceId(deviceId)) {
+    return res.status(400).json({ error: 'deviceId must be 16-128 characters of [A-Za-z0-9_-]' });
+  }
+
+  if (!process.env.GITHUB_DEVICE_REPO || !(process.env.GITHUB_DEVICE_TOKEN || process.env.GITHUB_TOKEN)) {
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+
+  const key = watchlistKey(deviceId);
+
+  try {
+    if (req.method === 'GET') {
+      const deviceStore = createDeviceStoreFromEnv(writeLog);
+      const { watchlists } = await readOptional(deviceStore, WATCHLISTS_FILE, EMPTY_WATCHLISTS);
+      const { alerts } = await readOptional<WatchlistAlertsData>(
+        createFileStore(DATA_DIR, writeLog),
+        WATCHLIST_ALERTS_FILE,
+        { lastUpdated: '', alerts: {} }
+      );
+      // Alerts only change when the cron publishes; the edge cache absorbs repeated polling
+      res.setHeader('Cache-Control', 'public, s-maxage=60, stale-while-revalidate=300');
+      return res.status(200).json({
+        watchlist: watchlists[key] || null,
+        alerts: alerts[key] || [],
+      });
+    }
+
+    if (req.method === 'PUT') {
+      let input;
+      try {
+        input = parseWatchlistInput(req.body);
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+      }
+
+      const watchlist = { ...input, updatedAt: new Date().toISOString() };
+      await updateWatchlists(`Update watchlist ${key.slice(0, 8)}`, (data) => ({
+        watchlists: { ...data.watchlists, [key]: watchlist },
+      }));
+      writeLog(`✓ Watchlist ${key.slice(0, 8)} saved (${input.assets.length} asset(s))`);
+      return res.status(200).json({ watchlist });
+    }
+
+    await updateWatchlists(`Remove watchlist ${key.slice(0, 8)}`, (data) => {
+      const { [key]: _removed, ...watchlists } = data.watchlists;
+      return { watchlists };
+    });
+    writeLog(`✓ Watchlist ${key.slice(0, 8)} removed`);
+    return res.status(200).json({ deleted: true });
+  } catch (error) {
+    if (error instanceof LeaseHeldError) {
+      res.setHeader('Retry-After', '30');
+      return res.status(503).json({ error: 'Device update in progress, retry shortly' });
+    }
+    return res.status(500).json({
+      error: 'Failed to process watchlist',
+      details: String(error),
+    });
+  }
+}
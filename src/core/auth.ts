@@ -0,0 +1,17 @@
+import { timingSafeEqual } from 'crypto';
+
+// ============================================================================
+// BEARER AUTH
+// ============================================================================
+
+// Compares `Authorization: Bearer <secret>` in constant time; an unset secret never matches
+export function hasBearerSecret(req: any, secret: string | undefined): boolean {
+  const header = req.headers?.authorization;
+  if (!secret || typeof header !== 'string') {
+    return false;
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(header);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,123 @@
+import { Logger } from './logger';
+import { FeedStore, FileUpdate } from './store';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ChangeSet {
+  changed: FileUpdate[];
+  skipped: string[];                            // file paths whose content only differed in volatile fields
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Fields that move on every run and don't warrant a commit on their own.
+// `*` matches every key of an object (e.g. each feed in status.json).
+const VOLATILE_FIELDS: Record<string, string[]> = {
+  'cex-listings.json': ['lastUpdated'],
+  'new-listings.json': ['lastChecked'],
+  'delistings.json': ['lastChecked'],
+  'world-currencies.json': ['lastUpdated'],
+  'skr-stats.json': ['lastUpdated'],
+  'watchlist-alerts.json': ['lastUpdated'],
+  'status.json': [
+    'lastRun',
+    'lastSuccessfulRun',
+    'history',
+    'feeds.*.lastRun',
+    'feeds.*.lastSuccess',
+    'feeds.*.consecutiveFailures',
+    'feeds.*.responseTimeMs',
+  ],
+};
+
+// Volatile fields still reach the store at least this often, so run history and last
+// successes are never more stale than this: the stored field holding the write time
+const MAX_STALE_HOURS: Record<string, { field: string; hours: number }> = {
+  'status.json': { field: 'lastRun', hours: Number(process.env.STATUS_REFRESH_HOURS) || 6 },
+};
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+function stripField(value: any, segments: string[]): any {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return value;
+  }
+
+  const [head, ...rest] = segments;
+  const keys = head === '*' ? Object.keys(value) : [head];
+  const result = { ...value };
+
+  for (const key of keys) {
+    if (!(key in result)) continue;
+    if (rest.length === 0) {
+      delete result[key];
+    } else {
+      result[key] = stripField(result[key], rest);
+    }
+  }
+
+  return result;
+}
+
+export function stableContent(fileName: string, content: any): string {
+  const stripped = (VOLATILE_FIELDS[fileName] || []).reduce(
+    (value, field) => stripField(value, field.split('.')),
+    content
+  );
+  return JSON.stringify(stripped);
+}
+
+function isStale(fileName: string, stored: any): boolean {
+  const maxStale = MAX_STALE_HOURS[fileName];
+  if (!maxStale) {
+    return false;
+  }
+  const writtenAt = new Date(stored?.[maxStale.field] || 0).getTime();
+  return Date.now() - writtenAt > maxStale.hours * 60 * 60 * 1000;
+}
+
+// Compares each generated file with the stored copy; unreadable or missing files count as changed
+export async function selectChangedFiles(
+  store: FeedStore,
+  files: FileUpdate[],
+  writeLog: Logger
+): Promise<ChangeSet> {
+  const changed: FileUpdate[] = [];
+  const skipped: string[] = [];
+  const refreshed: string[] = [];
+
+  for (const file of files) {
+    let stored: any;
+    try {
+      stored = await store.read(file.path);
+    } catch {
+      changed.push(file);
+      continue;
+    }
+
+    if (stableContent(file.path, stored) !== stableContent(file.path, file.content)) {
+      changed.push(file);
+    } else if (isStale(file.path, stored)) {
+      refreshed.push(file.path);
+      changed.push(file);
+    } else {
+      skipped.push(file.path);
+    }
+  }
+
+  if (refreshed.length > 0) {
+    writeLog(`Refreshing ${refreshed.length} stale file(s): ${refreshed.join(', ')}`);
+  }
+
+  if (skipped.length > 0) {
+    writeLog(`Skipping ${skipped.length} unchanged file(s): ${skipped.join(', ')}`);
+  }
+
+  return { changed, skipped };
+}
@@ -0,0 +1,458 @@
+import { FeedFetchError, FetchLike, fetchJSON, isPermanentFailure, toFeedError, withRetry } from './http';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type MarketType = 'spot' | 'perp' | 'futures';
+
+export interface ListedPair {
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+}
+
+export interface ExchangeInstrument extends ListedPair {
+  status: string;
+  marketType?: MarketType;                      // defaults to the adapter's first market type
+}
+
+export interface ExchangeAdapter {
+  id: string;                                   // key in cex-listings.json
+  name: string;                                 // display name in new-listings.json
+  marketTypes: MarketType[];                    // market types listed by this endpoint
+  endpoint: string;
+  alternateBaseUrls?: string[];                 // tried in order when the primary is geo-blocked
+  parse: (data: any) => ExchangeInstrument[];   // throws on unexpected response shape
+  nextPage?: (data: any, url: string) => string | null;  // next page URL for cursor-paginated endpoints
+  quoteFirst?: boolean;                         // symbols are written QUOTE-BASE, e.g. KRW-BTC
+  isTrading: (instrument: ExchangeInstrument) => boolean;
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+// Kraken reports a few legacy asset codes in wsname
+const KRAKEN_ASSET_ALIASES: Record<string, string> = {
+  XBT: 'BTC',
+  XDG: 'DOGE',
+};
+
+// Guards against a cursor that never ends
+const MAX_PAGES = 20;
+
+// Longest first so USDT wins over USD when splitting concatenated symbols
+const KNOWN_QUOTE_ASSETS = [
+  'FDUSD', 'USDT', 'USDC', 'RLUSD', 'USD', 'EUR', 'GBP', 'TRY',
+  'BRL', 'JPY', 'KRW', 'AUD', 'CAD', 'CHF', 'INR', 'BTC', 'XBT', 'ETH', 'BNB', 'SOL', 'DAI',
+].sort((a, b) => b.length - a.length);
+
+// Best-effort split for symbols without native base/quote fields
+export function splitSymbol(symbol: string, quoteFirst = false): { baseAsset: string; quoteAsset: string } {
+  const upper = symbol.split(':')[0].toUpperCase();
+  const parts = upper.split(/[-_\/]/);
+
+  if (parts.length >= 2) {
+    return quoteFirst
+      ? { baseAsset: parts[1], quoteAsset: parts[0] }
+      : { baseAsset: parts[0], quoteAsset: parts[1] };
+  }
+
+  const quote = KNOWN_QUOTE_ASSETS.find((q) => upper.endsWith(q) && upper.length > q.length);
+  if (!quote) {
+    return { baseAsset: upper, quoteAsset: '' };
+  }
+  return { baseAsset: upper.slice(0, -quote.length), quoteAsset: quote };
+}
+
+export const EXCHANGE_ADAPTERS: ExchangeAdapter[] = [
+  {
+    id: 'binance',
+    name: 'Binance',
+    marketTypes: ['spot'],
+    endpoint: 'https://api.binance.com/api/v3/exchangeInfo',
+    alternateBaseUrls: ['https://data-api.binance.vision'],
+    parse: (data) => {
+      if (!data.symbols) throw new Error('Invalid Binance API response');
+      return data.symbols.map((s: any) => ({
+        symbol: s.symbol,
+        baseAsset: s.baseAsset,
+        quoteAsset: s.quoteAsset,
+        status: s.status,
+      }));
+    },
+    isTrading: (i) => i.status === 'TRADING',
+  },
+  {
+    id: 'coinbase',
+    name: 'Coinbase',
+    marketTypes: ['spot'],
+    endpoint: 'https://api.exchange.coinbase.com/products',
+    parse: (data) => {
+      if (!Array.isArray(data)) throw new Error('Invalid Coinbase API response');
+      return data.map((p: any) => ({
+        symbol: p.id,
+        baseAsset: p.base_currency,
+        quoteAsset: p.quote_currency,
+        status: p.status,
+      }));
+    },
+    isTrading: (i) => i.status === 'online',
+  },
+  {
+    id: 'bybit',
+    name: 'Bybit',
+    marketTypes: ['spot'],
+    endpoint: 'https://api.bybit.com/v5/market/instruments-info?category=spot',
+    alternateBaseUrls: ['https://api.bytick.com'],
+    parse: (data) => {
+      if (!data.result || !data.result.list) throw new Error('Invalid Bybit API response');
+      return data.result.list.map((i: any) => ({
+        symbol: i.symbol,
+        baseAsset: i.baseCoin,
+        quoteAsset: i.quoteCoin,
+        status: i.status,
+      }));
+    },
+    isTrading: (i) => i.status === 'Trading',
+  },
+  {
+    id: 'upbit',
+    name: 'Upbit',
+    marketTypes: ['spot'],
+    endpoint: 'https://api.upbit.com/v1/market/all',
+    quoteFirst: true,
+    parse: (data) => {
+      if (!Array.isArray(data)) throw new Error('Invalid Upbit API response');
+      // Upbit has no trading status; only KRW markets are tracked
+      return data
+        .filter((m: any) => m.market)
+        .map((m: any) => ({ symbol: m.market, ...splitSymbol(m.market, true), status: m.market_warning || 'NONE' }));
+    },
+    isTrading: (i) => i.symbol.startsWith('KRW-'),
+  },
+  {
+    id: 'okx',
+    name: 'OKX',
+    marketTypes: ['spot'],
+    endpoint: 'https://www.okx.com/api/v5/public/instruments?instType=SPOT',
+    parse: (data) => {
+      if (!data.data) throw new Error('Invalid OKX API response');
+      return data.data.map((i: any) => ({
+        symbol: i.instId,
+        baseAsset: i.baseCcy,
+        quoteAsset: i.quoteCcy,
+        status: i.state,
+      }));
+    },
+    isTrading: (i) => i.status === 'live',
+  },
+  {
+    id: 'kraken',
+    name: 'Kraken',
+    marketTypes: ['spot'],
+    endpoint: 'https://api.kraken.com/0/public/AssetPairs',
+    parse: (data) => {
+      if (!data.result) throw new Error('Invalid Kraken API response');
+      return Object.entries(data.result).map(([key, pair]: [string, any]) => {
+        const { baseAsset, quoteAsset } = splitSymbol(pair.wsname || key);
+        return {
+          symbol: key,
+          baseAsset: KRAKEN_ASSET_ALIASES[baseAsset] || baseAsset,
+          quoteAsset: KRAKEN_ASSET_ALIASES[quoteAsset] || quoteAsset,
+          status: pair.status || 'online',
+        };
+      });
+    },
+    // Kraken pairs are all tracked regardless of status
+    isTrading: () => true,
+  },
+  {
+    id: 'gateio',
+    name: 'Gate.io',
+    marketTypes: ['spot'],
+    endpoint: 'https://api.gateio.ws/api/v4/spot/currency_pairs',
+    parse: (data) => {
+      if (!Array.isArray(data)) throw new Error('Invalid Gate.io API response');
+      return data.map((p: any) => ({
+        symbol: p.id,
+        baseAsset: p.base,
+        quoteAsset: p.quote,
+        status: p.trade_status,
+      }));
+    },
+    isTrading: (i) => i.status === 'tradable',
+  },
+  {
+    id: 'kucoin',
+    name: 'KuCoin',
+    marketTypes: ['spot'],
+    endpoint: 'https://api.kucoin.com/api/v2/symbols',
+    parse: (data) => {
+      if (!Array.isArray(data.data)) throw new Error('Invalid KuCoin API response');
+      return data.data.map((s: any) => ({
+        symbol: s.symbol,
+        baseAsset: s.baseCurrency,
+        quoteAsset: s.quoteCurrency,
+        status: s.enableTrading ? 'enabled' : 'disabled',
+      }));
+    },
+    isTrading: (i) => i.status === 'enabled',
+  },
+  {
+    id: 'mexc',
+    name: 'MEXC',
+    marketTypes: ['spot'],
+    endpoint: 'https://api.mexc.com/api/v3/exchangeInfo',
+    parse: (data) => {
+      if (!data.symbols) throw new Error('Invalid MEXC API response');
+      return data.symbols.map((s: any) => ({
+        symbol: s.symbol,
+        baseAsset: s.baseAsset,
+        quoteAsset: s.quoteAsset,
+        status: String(s.status),
+      }));
+    },
+    // MEXC reports "1" for online, "2" for paused and "3" for offline
+    isTrading: (i) => i.status === '1',
+  },
+  {
+    id: 'bitget',
+    name: 'Bitget',
+    marketTypes: ['spot'],
+    endpoint: 'https://api.bitget.com/api/v2/spot/public/symbols',
+    parse: (data) => {
+      if (!Array.isArray(data.data)) throw new Error('Invalid Bitget API response');
+      return data.data.map((s: any) => ({
+        symbol: s.symbol,
+        baseAsset: s.baseCoin,
+        quoteAsset: s.quoteCoin,
+        status: s.status,
+      }));
+    },
+    isTrading: (i) => i.status === 'online',
+  },
+  {
+    id: 'htx',
+    name: 'HTX',
+    marketTypes: ['spot'],
+    endpoint: 'https://api.huobi.pro/v1/common/symbols',
+    parse: (data) => {
+      if (data.status !== 'ok' || !Array.isArray(data.data)) {
+        throw new Error('Invalid HTX API response');
+      }
+      return data.data.map((s: any) => ({
+        symbol: s.symbol.toUpperCase(),
+        baseAsset: s['base-currency'].toUpperCase(),
+        quoteAsset: s['quote-currency'].toUpperCase(),
+        status: s.state,
+      }));
+    },
+    isTrading: (i) => i.status === 'online',
+  },
+
+  // Derivatives
+  {
+    id: 'binance',
+    name: 'Binance',
+    marketTypes: ['perp', 'futures'],
+    endpoint: 'https://fapi.binance.com/fapi/v1/exchangeInfo',
+    parse: (data) => {
+      if (!data.symbols) throw new Error('Invalid Binance Futures API response');
+      return data.symbols.map((s: any) => ({
+        symbol: s.symbol,
+        baseAsset: s.baseAsset,
+        quoteAsset: s.quoteAsset,
+        status: s.status,
+        marketType: s.contractType === 'PERPETUAL' ? 'perp' : 'futures',
+      }));
+    },
+    isTrading: (i) => i.status === 'TRADING',
+  },
+  {
+    id: 'bybit',
+    name: 'Bybit',
+    marketTypes: ['perp', 'futures'],
+    endpoint: 'https://api.bybit.com/v5/market/instruments-info?category=linear&limit=1000',
+    alternateBaseUrls: ['https://api.bytick.com'],
+    parse: (data) => {
+      if (!data.result || !data.result.list) throw new Error('Invalid Bybit API response');
+      return data.result.list.map((i: any) => ({
+        symbol: i.symbol,
+        baseAsset: i.baseCoin,
+        quoteAsset: i.quoteCoin,
+        status: i.status,
+        marketType: i.contractType === 'LinearPerpetual' ? 'perp' : 'futures',
+      }));
+    },
+    // Linear instruments span more than one page of 1000
+    nextPage: (data, url) => {
+      const cursor = data.result?.nextPageCursor;
+      if (!cursor) return null;
+      const next = new URL(url);
+      next.searchParams.set('cursor', cursor);
+      return next.toString();
+    },
+    isTrading: (i) => i.status === 'Trading',
+  },
+  {
+    id: 'okx',
+    name: 'OKX',
+    marketTypes: ['perp'],
+    endpoint: 'https://www.okx.com/api/v5/public/instruments?instType=SWAP',
+    parse: (data) => {
+      if (!data.data) throw new Error('Invalid OKX API response');
+      return data.data.map((i: any) => {
+        // Derivatives carry the underlying as e.g. BTC-USDT
+        const [baseAsset, quoteAsset] = i.uly.split('-');
+        return { symbol: i.instId, baseAsset, quoteAsset, status: i.state };
+      });
+    },
+    isTrading: (i) => i.status === 'live',
+  },
+  {
+    id: 'okx',
+    name: 'OKX',
+    marketTypes: ['futures'],
+    endpoint: 'https://www.okx.com/api/v5/public/instruments?instType=FUTURES',
+    parse: (data) => {
+      if (!data.data) throw new Error('Invalid OKX API response');
+      return data.data.map((i: any) => {
+        // Derivatives carry the underlying as e.g. BTC-USDT
+        const [baseAsset, quoteAsset] = i.uly.split('-');
+        return { symbol: i.instId, baseAsset, quoteAsset, status: i.state };
+      });
+    },
+    isTrading: (i) => i.status === 'live',
+  },
+];
+
+// ============================================================================
+// FETCHING
+// ============================================================================
+
+export function adapterLabel(adapter: ExchangeAdapter): string {
+  return `${adapter.name} ${adapter.marketTypes.join('/')}`;
+}
+
+// Feed id used for per-feed health in status.json, e.g. binance-perp-futures
+export function adapterFeedId(adapter: ExchangeAdapter): string {
+  return `${adapter.id}-${adapter.marketTypes.join('-')}`;
+}
+
+function withBaseUrl(endpoint: string, baseUrl: string): string {
+  const url = new URL(endpoint);
+  return `${baseUrl.replace(/\/$/, '')}${url.pathname}${url.search}`;
+}
+
+// EXCHANGE_BASE_URL_<FEED_ID> (e.g. EXCHANGE_BASE_URL_BYBIT_PERP_FUTURES) replaces the primary
+// host, for regions where it is blocked or to route through a reverse proxy. The shorter
+// EXCHANGE_BASE_URL_<ID> only applies to spot, since derivatives live on other hosts.
+function baseUrlOverride(adapter: ExchangeAdapter): string | undefined {
+  const feedVariable = `EXCHANGE_BASE_URL_${adapterFeedId(adapter).toUpperCase().replace(/-/g, '_')}`;
+  if (process.env[feedVariable]) {
+    return process.env[feedVariable];
+  }
+  return adapter.marketTypes.includes('spot')
+    ? process.env[`EXCHANGE_BASE_URL_${adapter.id.toUpperCase()}`]
+    : undefined;
+}
+
+export function resolveEndpoints(adapter: ExchangeAdapter): string[] {
+  const override = baseUrlOverride(adapter);
+  const primary = override ? withBaseUrl(adapter.endpoint, override) : adapter.endpoint;
+  const alternates = (adapter.alternateBaseUrls || []).map((base) => withBaseUrl(adapter.endpoint, base));
+  return [primary, ...alternates];
+}
+
+async function fetchPage(
+  adapter: ExchangeAdapter,
+  url: string,
+  fetchImpl?: FetchLike
+): Promise<{ data: any; instruments: ExchangeInstrument[] }> {
+  const data = await fetchJSON(url, {}, fetchImpl);
+
+  try {
+    return { data, instruments: adapter.parse(data) };
+  } catch (error) {
+    throw new FeedFetchError({
+      category: 'schema_mismatch',
+      message: error instanceof Error ? error.message : String(error),
+      url,
+    });
+  }
+}
+
+// Follows the adapter's cursor so a truncated first page never looks like mass delistings
+async function fetchInstruments(adapter: ExchangeAdapter, url: string, fetchImpl?: FetchLike): Promise<ExchangeInstrument[]> {
+  const instruments: ExchangeInstrument[] = [];
+  let pageUrl: string | null = url;
+
+  for (let page = 0; pageUrl; page++) {
+    if (page === MAX_PAGES) {
+      throw new FeedFetchError({ category: 'schema_mismatch', message: `More than ${MAX_PAGES} pages`, url });
+    }
+    const { data, instruments: pageInstruments } = await fetchPage(adapter, pageUrl, fetchImpl);
+    instruments.push(...pageInstruments);
+    pageUrl = adapter.nextPage ? adapter.nextPage(data, pageUrl) : null;
+  }
+
+  return instruments;
+}
+
+export async function fetchExchangePairs(
+  adapter: ExchangeAdapter,
+  writeLog: (message: string) => void,
+  fetchImpl?: FetchLike
+): Promise<Partial<Record<MarketType, ListedPair[]>>> {
+  const label = adapterLabel(adapter);
+
+  try {
+    writeLog(`Fetching ${label} listings...`);
+    const endpoints = resolveEndpoints(adapter);
+
+    let instruments: ExchangeInstrument[] | null = null;
+    for (const [index, url] of endpoints.entries()) {
+      try {
+        instruments = await withRetry(
+          () => fetchInstruments(adapter, url, fetchImpl),
+          undefined,
+          (error) => !isPermanentFailure(error)
+        );
+        break;
+      } catch (error) {
+        const hasAlternate = index < endpoints.length - 1;
+        if (!hasAlternate || toFeedError(error).category !== 'geo_blocked') {
+          throw error;
+        }
+        writeLog(`⚠ ${label}: ${url} is blocked, trying ${endpoints[index + 1]}`);
+      }
+    }
+
+    if (!instruments) {
+      throw new Error(`No endpoint configured for ${label}`);
+    }
+
+    const pairs: Partial<Record<MarketType, ListedPair[]>> = {};
+    for (const marketType of adapter.marketTypes) {
+      pairs[marketType] = [];
+    }
+
+    for (const instrument of instruments.filter(adapter.isTrading)) {
+      const marketType = instrument.marketType || adapter.marketTypes[0];
+      pairs[marketType]?.push({
+        symbol: instrument.symbol,
+        baseAsset: instrument.baseAsset,
+        quoteAsset: instrument.quoteAsset,
+      });
+    }
+
+    const total = Object.values(pairs).reduce((sum, list) => sum + list.length, 0);
+    writeLog(`✓ ${label}: ${total} trading pairs`);
+    return pairs;
+  } catch (error) {
+    writeLog(`✗ ${label} fetch failed: ${error}`);
+    throw error;
+  }
+}
@@ -0,0 +1,809 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { FeedFetchError, FetchLike, delay, fetchJSON, fetchWithTimeout, toFeedError } from './http';
+import {
+  Delisting,
+  DelistingsData,
+  ExchangeFetch,
+  ExchangeListings,
+  NewListing,
+  NewListingsData,
+  QuarantinedSnapshot,
+  buildAssetRollup,
+  cleanOldListings,
+  diffExchangeListings,
+  fetchExchanges,
+  toStoredSnapshot,
+} from './listings';
+import { ChangeSet, selectChangedFiles } from './changes';
+import { Logger } from './logger';
+import { AlertEvent, feedTransitions, sendAlerts } from './notifiers';
+import { FeedEvent, generateNotifications } from './notification-rules';
+import { LiveNotificationsResult, updateLiveNotifications } from './notifications';
+import {
+  EMPTY_PUSH_DEVICES,
+  PUSH_DEVICES_FILE,
+  PushDevicesData,
+  PushProviders,
+  defaultPushProviders,
+  dispatchPush,
+  removePushDevices,
+} from './push';
+import { FeedResult, StatusData, recordDeliveries, updateFeedStatus } from './status';
+import {
+  COMMIT_ATTEMPTS,
+  FeedStore,
+  FileUpdate,
+  WriteConflictError,
+  readOptional,
+  updateFile,
+  withLease,
+} from './store';
+import {
+  EMPTY_WATCHLISTS,
+  WATCHLISTS_FILE,
+  WATCHLIST_ALERTS_FILE,
+  WatchlistAlert,
+  WatchlistAlertsData,
+  WatchlistsData,
+  matchWatchlists,
+  mergeWatchlistAlerts,
+} from './watchlists';
+import { WebhookDelivery, notifyWebhooks } from './webhooks';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type FeedName = 'listings' | 'currencies' | 'skr';
+
+export interface WorldCurrenciesData {
+  lastUpdated: string;
+  rates: Record<string, number>;
+}
+
+export interface SKRStatsData {
+  lastUpdated: string;
+  staking: {
+    totalStaked: number;
+    apy: number;
+    apySource?: 'scraped' | 'fallback';         // missing in files written before it was tracked
+    inflationRate: number;
+  };
+}
+
+interface ListingsResult {
+  success: boolean;
+  errors: string[];
+  files: FileUpdate[];
+  feeds: FeedResult[];
+  newListings: NewListing[];
+  delistings: Delisting[];
+  quarantined?: QuarantinedSnapshot[];
+}
+
+interface SingleFeedResult {
+  success: boolean;
+  error?: string;
+  file?: FileUpdate;
+  feed: FeedResult;
+}
+
+// Everything a run builds from the store; rebuilt when the commit hits a concurrent edit
+interface MergedRun extends ChangeSet {
+  oldStatus: StatusData;
+  status: StatusData;
+  listingsResult: ListingsResult | null;
+  watchlistMatches: Record<string, WatchlistAlert[]>;
+  alertEvents: AlertEvent[];
+  liveNotifications: LiveNotificationsResult;
+  message: string;
+}
+
+interface SKRResult extends SingleFeedResult {
+  apyScraped: boolean;                          // false when the APY is the hardcoded fallback
+}
+
+export interface RunOptions {
+  pushProviders?: PushProviders;                // defaults to Expo/FCM, or the stub with PUSH_PROVIDER=stub
+  fetch?: FetchLike;                            // every upstream request (exchanges, currencies, staking site, RPC, alerts)
+  deviceStore?: FeedStore;                      // holds watchlists.json and push-devices.json; defaults to the data store
+  leaseAttempts?: number;                       // defaults to LEASE_ATTEMPTS
+}
+
+export interface RunSummary {
+  success: boolean;
+  status: StatusData;
+  message: string;                              // one-line run summary, used as the commit message
+  changedFiles: string[];
+  skippedFiles: string[];                       // generated but identical apart from timestamps
+  cexListings?: { success: boolean; errors: string[] };
+  worldCurrencies?: { success: boolean; error?: string };
+  skrStats?: { success: boolean; error?: string };
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const ALL_FEEDS: FeedName[] = ['listings', 'currencies', 'skr'];
+
+// Longer than any run is allowed to take, so a crashed run's lease frees itself
+const LEASE_TTL_MS = Number(process.env.UPDATE_LEASE_TTL_MS) || 10 * 60 * 1000;
+
+// Retried once a second, so a short admin edit delays the run instead of skipping it
+const LEASE_ATTEMPTS = 30;
+
+// Device cleanup is one small commit; registrations hold the device lease only briefly
+const DEVICE_LEASE_TTL_MS = 30 * 1000;
+const DEVICE_LEASE_ATTEMPTS = 5;
+
+// Using ExchangeRate-API (1,500 requests/month free tier)
+const CURRENCY_API_ENDPOINT = 'https://api.exchangerate-api.com/v4/latest/USD';
+
+const HELIUS_API_KEY = process.env.HELIUS_API_KEY || '';
+const RPC_ENDPOINT = `https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}`;
+const SEEKER_STAKING_VAULT = '8isViKbwhuhFhsv2t8vaFL74pKCqaFPQXo1KkeQwZbB8';
+const SOLANA_MOBILE_STAKING_SITE = 'https://stake.solanamobile.com/';
+
+const SKR_FALLBACK = { apy: 20.7, inflationRate: 10.0 };
+
+// Multiple patterns to catch APY
+const APY_PATTERNS = [
+  /Earn\s+(\d+\.?\d*)\s*%\s+APY/i,           // "Earn 20.7% APY"
+  /Current\s+Yield[^0-9]*(\d+\.?\d*)\s*%/i,   // "Current Yield 20.7%"
+  /APY\s*\(current\)[^0-9]*(\d+\.?\d*)\s*%/i, // "APY (current)20.7%"
+];
+
+// Multiple patterns to catch Inflation Rate
+const INFLATION_PATTERNS = [
+  /Inflation\s+Rate[^0-9]*(\d+\.?\d*)\s*%/i,  // "Inflation Rate10.0%"
+  /inflation.*?(\d+\.?\d*)\s*%/i,              // any inflation text
+];
+
+// Beyond this, the commit message counts failed exchange feeds instead of naming them
+const MAX_NAMED_FAILURES = 3;
+
+const NEVER_RUN_STATUS: StatusData = {
+  lastRun: null,
+  lastSuccessfulRun: null,
+  status: 'never_run',
+  errors: [],
+};
+
+// ============================================================================
+// CEX LISTINGS
+// ============================================================================
+
+async function fetchCEXListings(writeLog: Logger, fetchImpl?: FetchLike): Promise<ExchangeFetch[]> {
+  writeLog('════════════════════════════════════════════════════════════');
+  writeLog('Starting CEX Listings Update');
+  writeLog('════════════════════════════════════════════════════════════');
+
+  return fetchExchanges(writeLog, fetchImpl);
+}
+
+async function updateCEXListings(
+  store: FeedStore,
+  oldStatus: StatusData,
+  fetches: ExchangeFetch[],
+  writeLog: Logger
+): Promise<ListingsResult> {
+  const started = Date.now();
+  const errors: string[] = [];
+  const files: FileUpdate[] = [];
+
+  try {
+    const oldListings = await store.read<ExchangeListings>('cex-listings.json');
+    const newListingsData = await store.read<NewListingsData>('new-listings.json');
+    const delistingsData = await store.read<DelistingsData>('delistings.json');
+
+    const {
+      exchanges,
+      newListings: allNewListings,
+      delistings,
+      quarantined,
+      feeds,
+      errors: fetchErrors,
+    } = await diffExchangeListings(
+      fetches,
+      oldListings.exchanges,
+      newListingsData.listings,
+      oldStatus.quarantined || [],
+      writeLog
+    );
+    errors.push(...fetchErrors);
+
+    const updatedListings: ExchangeListings = {
+      lastUpdated: new Date().toISOString(),
+      exchanges: Object.fromEntries(
+        Object.entries(exchanges).map(([exchangeId, snapshot]) => [exchangeId, toStoredSnapshot(exchangeId, snapshot)])
+      ),
+    };
+    files.push({ path: 'cex-listings.json', content: updatedListings });
+
+    const combinedListings = [...newListingsData.listings, ...allNewListings];
+    const cleanedListings = cleanOldListings(combinedListings);
+
+    const updatedNewListings: NewListingsData = {
+      lastChecked: new Date().toISOString(),
+      listings: cleanedListings,
+      assets: buildAssetRollup(cleanedListings),
+    };
+    files.push({ path: 'new-listings.json', content: updatedNewListings });
+
+    const updatedDelistings: DelistingsData = {
+      lastChecked: new Date().toISOString(),
+      delistings: cleanOldListings([...delistingsData.delistings, ...delistings]),
+    };
+    files.push({ path: 'delistings.json', content: updatedDelistings });
+
+    writeLog(`✓ CEX Update Complete: ${allNewListings.length} new listing(s), ${delistings.length} delisting(s)`);
+    if (errors.length > 0) {
+      writeLog(`⚠ ${errors.length} error(s) occurred - check logs for details`);
+    }
+    if (quarantined.length > 0) {
+      writeLog(`⚠ ${quarantined.length} snapshot(s) quarantined - see status.json`);
+    }
+
+    return {
+      success: errors.length === 0,
+      errors,
+      files,
+      feeds,
+      newListings: allNewListings,
+      delistings,
+      quarantined,
+    };
+  } catch (error) {
+    writeLog(`✗ CEX Critical error: ${error}`);
+    return {
+      success: false,
+      errors: [`Critical: ${error}`],
+      files,
+      newListings: [],
+      delistings: [],
+      feeds: [{
+        feed: 'cex-listings',
+        success: false,
+        error: { ...toFeedError(error), message: `Critical: ${error}` },
+        responseTimeMs: Date.now() - started,
+        itemCount: null,
+      }],
+    };
+  }
+}
+
+// ============================================================================
+// WATCHLISTS
+// ============================================================================
+
+// Matches this run's new listings against every device watchlist; null when nobody watches anything
+async function updateWatchlistAlerts(
+  store: FeedStore,
+  deviceStore: FeedStore,
+  newListings: NewListing[],
+  writeLog: Logger
+): Promise<{ file: FileUpdate; matches: Record<string, WatchlistAlert[]> } | null> {
+  let watchlistsData: WatchlistsData;
+  let alertsData: WatchlistAlertsData;
+  try {
+    watchlistsData = await readOptional(deviceStore, WATCHLISTS_FILE, EMPTY_WATCHLISTS);
+    alertsData = await readOptional<WatchlistAlertsData>(store, WATCHLIST_ALERTS_FILE, { lastUpdated: '', alerts: {} });
+  } catch (error) {
+    writeLog(`✗ Watchlist matching skipped: ${error}`);
+    return null;
+  }
+
+  const { watchlists } = watchlistsData;
+  if (Object.keys(watchlists).length === 0) {
+    return null;
+  }
+
+  const matches = matchWatchlists(watchlists, newListings);
+  const matched = Object.values(matches).reduce((sum, alerts) => sum + alerts.length, 0);
+  if (matched > 0) {
+    writeLog(`✓ ${matched} watchlist alert(s) across ${Object.keys(matches).length} watchlist(s)`);
+  }
+
+  const updated: WatchlistAlertsData = {
+    lastUpdated: new Date().toISOString(),
+    alerts: mergeWatchlistAlerts(alertsData.alerts, matches, watchlists),
+  };
+  return { file: { path: WATCHLIST_ALERTS_FILE, content: updated }, matches };
+}
+
+// ============================================================================
+// WORLD CURRENCIES
+// ============================================================================
+
+async function updateWorldCurrencies(writeLog: Logger, fetchImpl?: FetchLike): Promise<SingleFeedResult> {
+  const started = Date.now();
+
+  writeLog('════════════════════════════════════════════════════════════');
+  writeLog('Starting World Currencies Update');
+  writeLog('════════════════════════════════════════════════════════════');
+
+  try {
+    writeLog('Fetching latest exchange rates...');
+    const data: any = await fetchJSON(CURRENCY_API_ENDPOINT, {}, fetchImpl);
+
+    if (!data.rates) {
+      throw new FeedFetchError({
+        category: 'schema_mismatch',
+        message: 'Invalid API response - missing rates',
+        url: CURRENCY_API_ENDPOINT,
+      });
+    }
+
+    writeLog(`✓ Fetched ${Object.keys(data.rates).length} currency rates`);
+
+    // Keep ALL rates - no filtering or prioritization
+    const allRates: Record<string, number> = { USD: 1.0, ...data.rates };
+
+    const worldCurrenciesData: WorldCurrenciesData = {
+      lastUpdated: new Date().toISOString(),
+      rates: allRates,
+    };
+
+    writeLog(`✓ World Currencies Update Complete: ${Object.keys(allRates).length} currencies`);
+
+    return {
+      success: true,
+      file: { path: 'world-currencies.json', content: worldCurrenciesData },
+      feed: {
+        feed: 'world-currencies',
+        success: true,
+        responseTimeMs: Date.now() - started,
+        itemCount: Object.keys(allRates).length,
+      },
+    };
+  } catch (error) {
+    writeLog(`✗ World Currencies error: ${error}`);
+    return {
+      success: false,
+      error: String(error),
+      feed: {
+        feed: 'world-currencies',
+        success: false,
+        error: toFeedError(error),
+        responseTimeMs: Date.now() - started,
+        itemCount: null,
+      },
+    };
+  }
+}
+
+// ============================================================================
+// SKR STATS
+// ============================================================================
+
+async function fetchAPYAndInflation(
+  writeLog: Logger,
+  fetchImpl?: FetchLike
+): Promise<{ apy: number; inflationRate: number; scraped: boolean }> {
+  try {
+    writeLog('Scraping APY and Inflation Rate from Solana Mobile staking site...');
+
+    const response = await fetchWithTimeout(SOLANA_MOBILE_STAKING_SITE, {}, undefined, fetchImpl);
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch staking site: ${response.status}`);
+    }
+
+    const html = await response.text();
+
+    let apy: number | null = null;
+    let inflationRate: number | null = null;
+
+    // Try all APY patterns
+    for (const pattern of APY_PATTERNS) {
+      const match = html.match(pattern);
+      if (match) {
+        apy = parseFloat(match[1]);
+        break;
+      }
+    }
+
+    // Try all Inflation patterns
+    for (const pattern of INFLATION_PATTERNS) {
+      const match = html.match(pattern);
+      if (match) {
+        inflationRate = parseFloat(match[1]);
+        break;
+      }
+    }
+
+    if (apy === null || inflationRate === null) {
+      writeLog('⚠ Could not parse APY or Inflation Rate from website');
+      writeLog(`Using fallback values: APY ${SKR_FALLBACK.apy}%, Inflation ${SKR_FALLBACK.inflationRate}%`);
+      return { ...SKR_FALLBACK, scraped: false };
+    }
+
+    writeLog(`✓ APY: ${apy}%`);
+    writeLog(`✓ Inflation Rate: ${inflationRate}%`);
+
+    return { apy, inflationRate, scraped: true };
+  } catch (error) {
+    writeLog(`✗ Failed to scrape APY/Inflation: ${error}`);
+    writeLog(`Using fallback values: APY ${SKR_FALLBACK.apy}%, Inflation ${SKR_FALLBACK.inflationRate}%`);
+    return { ...SKR_FALLBACK, scraped: false };
+  }
+}
+
+async function fetchStakingData(writeLog: Logger, fetchImpl?: FetchLike): Promise<{ totalStaked: number }> {
+  writeLog('Fetching staking data from Helius RPC...');
+
+  if (!HELIUS_API_KEY) {
+    throw new Error('HELIUS_API_KEY environment variable not set');
+  }
+
+  // web3.js types its fetch option against the DOM fetch; node-fetch compatible at runtime
+  const connection = new Connection(RPC_ENDPOINT, { commitment: 'confirmed', fetch: fetchImpl as any });
+  const vaultPubkey = new PublicKey(SEEKER_STAKING_VAULT);
+
+  // Get total staked from the vault
+  const vaultInfo = await connection.getParsedAccountInfo(vaultPubkey);
+
+  let totalStaked = 0;
+  if (vaultInfo.value && 'parsed' in vaultInfo.value.data) {
+    totalStaked = vaultInfo.value.data.parsed.info.tokenAmount.uiAmount || 0;
+    writeLog(`✓ Total Staked: ${totalStaked.toLocaleString()} SKR`);
+  } else {
+    throw new Error('Could not parse vault balance');
+  }
+
+  return { totalStaked };
+}
+
+async function updateSKRStats(writeLog: Logger, fetchImpl?: FetchLike): Promise<SKRResult> {
+  const started = Date.now();
+
+  writeLog('════════════════════════════════════════════════════════════');
+  writeLog('Starting SKR Stats Update');
+  writeLog('════════════════════════════════════════════════════════════');
+
+  try {
+    // Fetch APY and Inflation Rate from website
+    const { apy, inflationRate, scraped } = await fetchAPYAndInflation(writeLog, fetchImpl);
+    await delay(2000); // Rate limit protection
+
+    // Fetch staking data from RPC
+    const { totalStaked } = await fetchStakingData(writeLog, fetchImpl);
+
+    const skrStats: SKRStatsData = {
+      lastUpdated: new Date().toISOString(),
+      staking: {
+        totalStaked,
+        apy,
+        apySource: scraped ? 'scraped' : 'fallback',
+        inflationRate,
+      }
+    };
+
+    writeLog(`✓ SKR Stats Update Complete`);
+
+    return {
+      success: true,
+      apyScraped: scraped,
+      file: { path: 'skr-stats.json', content: skrStats },
+      feed: {
+        feed: 'skr-stats',
+        success: true,
+        responseTimeMs: Date.now() - started,
+        itemCount: null,
+      },
+    };
+  } catch (error) {
+    writeLog(`✗ SKR Stats error: ${error}`);
+    return {
+      success: false,
+      apyScraped: false,
+      error: String(error),
+      feed: {
+        feed: 'skr-stats',
+        success: false,
+        error: toFeedError(error),
+        responseTimeMs: Date.now() - started,
+        itemCount: null,
+      },
+    };
+  }
+}
+
+// Compares against the published skr-stats.json, and only scraped values with each other:
+// a fallback on either side would otherwise show up as a change once scraping recovers
+async function skrApyChange(store: FeedStore, skr: SKRResult, writeLog: Logger): Promise<FeedEvent[]> {
+  if (!skr.success || !skr.apyScraped || !skr.file) {
+    return [];
+  }
+
+  try {
+    const previous = await readOptional<SKRStatsData | null>(store, 'skr-stats.json', null);
+    const current = (skr.file.content as SKRStatsData).staking.apy;
+    if (!previous || previous.staking.apySource !== 'scraped' || previous.staking.apy === current) {
+      return [];
+    }
+    return [{ type: 'apy_change', previous: previous.staking.apy, current, detectedAt: new Date().toISOString() }];
+  } catch (error) {
+    writeLog(`⚠ Could not read previous SKR stats: ${error}`);
+    return [];
+  }
+}
+
+// ============================================================================
+// COMMIT MESSAGE
+// ============================================================================
+
+// "3 new listings on Upbit", "1 delisting on OKX" - busiest exchange first
+function countByExchange(items: { exchange: string }[], noun: string): string[] {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    counts.set(item.exchange, (counts.get(item.exchange) || 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([exchange, count]) => `${count} ${noun}${count === 1 ? '' : 's'} on ${exchange}`);
+}
+
+// e.g. "3 new listings on Upbit, currencies refreshed, SKR failed"
+function describeRun(
+  listings: ListingsResult | null,
+  currencies: SingleFeedResult | null,
+  skr: SingleFeedResult | null,
+  liveNotifications: LiveNotificationsResult
+): string {
+  const parts: string[] = [];
+
+  if (listings) {
+    const failedFeeds = listings.feeds.filter((f) => !f.success).map((f) => f.feed);
+    if (failedFeeds.length === listings.feeds.length) {
+      parts.push('listings failed');
+    } else {
+      parts.push(...countByExchange(listings.newListings, 'new listing'));
+      parts.push(...countByExchange(listings.delistings, 'delisting'));
+      if (listings.newListings.length === 0 && listings.delistings.length === 0) {
+        parts.push('no new listings');
+      }
+      if (failedFeeds.length > MAX_NAMED_FAILURES) {
+        parts.push(`${failedFeeds.length} exchange feeds failed`);
+      } else if (failedFeeds.length > 0) {
+        parts.push(`${failedFeeds.join(', ')} failed`);
+      }
+    }
+  }
+
+  if (currencies) {
+    parts.push(currencies.success ? 'currencies refreshed' : 'currencies failed');
+  }
+
+  if (skr) {
+    parts.push(skr.success ? 'SKR stats refreshed' : 'SKR failed');
+  }
+
+  if (liveNotifications.published.length > 0) {
+    const count = liveNotifications.published.length;
+    parts.push(`${count} notification${count === 1 ? '' : 's'} published`);
+  }
+  if (liveNotifications.generated.length > 0) {
+    const count = liveNotifications.generated.length;
+    parts.push(`${count} notification${count === 1 ? '' : 's'} generated`);
+  }
+  if (liveNotifications.archived.length > 0) {
+    const count = liveNotifications.archived.length;
+    parts.push(`${count} notification${count === 1 ? '' : 's'} archived`);
+  }
+
+  const message = parts.join(', ');
+  return message.charAt(0).toUpperCase() + message.slice(1);
+}
+
+// ============================================================================
+// PIPELINE
+// ============================================================================
+
+// Parses a `feeds` selector such as "listings,skr"; empty means every feed
+export function parseFeedNames(selector: string | string[] | undefined): FeedName[] {
+  const names = (Array.isArray(selector) ? selector.join(',') : selector || '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0);
+
+  if (names.length === 0) {
+    return ALL_FEEDS;
+  }
+
+  const unknown = names.filter((name) => !ALL_FEEDS.includes(name as FeedName));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown feed(s): ${unknown.join(', ')} (expected ${ALL_FEEDS.join(', ')})`);
+  }
+
+  return ALL_FEEDS.filter((name) => names.includes(name));
+}
+
+// Holds the store's lease for the whole read-fetch-write cycle
+export async function runFeeds(
+  store: FeedStore,
+  feedNames: FeedName[],
+  writeLog: Logger,
+  options: RunOptions = {}
+): Promise<RunSummary> {
+  const leaseOptions = { ttlMs: LEASE_TTL_MS, attempts: options.leaseAttempts || LEASE_ATTEMPTS };
+  return withLease(store, leaseOptions, writeLog, (lease) => {
+    writeLog(`Acquired update lease ${lease.holder} (expires ${lease.expiresAt})`);
+    return runFeedsUnderLease(store, feedNames, writeLog, options);
+  });
+}
+
+// Reads the store and builds every generated file (status.json included) from this run's fetches
+async function mergeRun(
+  store: FeedStore,
+  deviceStore: FeedStore,
+  exchangeFetches: ExchangeFetch[] | null,
+  currencyResult: SingleFeedResult | null,
+  skrResult: SKRResult | null,
+  startTime: string,
+  writeLog: Logger
+): Promise<MergedRun> {
+  let oldStatus: StatusData;
+  try {
+    oldStatus = await store.read<StatusData>('status.json');
+  } catch (error) {
+    writeLog(`⚠ Could not read status.json, starting fresh: ${error}`);
+    oldStatus = NEVER_RUN_STATUS;
+  }
+
+  const files: FileUpdate[] = [];
+  const feedResults: FeedResult[] = [];
+
+  const listingsResult = exchangeFetches ? await updateCEXListings(store, oldStatus, exchangeFetches, writeLog) : null;
+  if (listingsResult) {
+    files.push(...listingsResult.files);
+    feedResults.push(...listingsResult.feeds);
+  }
+
+  let watchlistMatches: Record<string, WatchlistAlert[]> = {};
+  if (listingsResult) {
+    const watchlistResult = await updateWatchlistAlerts(store, deviceStore, listingsResult.newListings, writeLog);
+    if (watchlistResult) {
+      files.push(watchlistResult.file);
+      watchlistMatches = watchlistResult.matches;
+    }
+  }
+
+  if (currencyResult) {
+    if (currencyResult.file) files.push(currencyResult.file);
+    feedResults.push(currencyResult.feed);
+  }
+
+  if (skrResult) {
+    if (skrResult.file) files.push(skrResult.file);
+    feedResults.push(skrResult.feed);
+  }
+
+  const alertEvents: AlertEvent[] = [
+    ...(listingsResult?.newListings || []).map((listing): AlertEvent => ({ type: 'new_listing', listing })),
+    ...(listingsResult?.delistings || []).map((delisting): AlertEvent => ({ type: 'delisting', delisting })),
+    ...feedTransitions(oldStatus.feeds || {}, feedResults),
+  ];
+
+  const feedEvents: FeedEvent[] = [...alertEvents, ...(skrResult ? await skrApyChange(store, skrResult, writeLog) : [])];
+
+  // Runs on every invocation, whatever the feed selector, so the listings cron bounds the delay
+  const liveNotifications = await updateLiveNotifications(store, generateNotifications(feedEvents), writeLog);
+  files.push(...liveNotifications.files);
+
+  // Live notifications count as pushed once this write lands, so a failed push is not retried
+  // but a failed write never pushes
+  const status = updateFeedStatus(oldStatus, feedResults, {
+    startedAt: startTime,
+    quarantined: listingsResult?.quarantined,
+    pushedNotificationIds: liveNotifications.live?.map((n) => n.id),
+  });
+  files.push({ path: 'status.json', content: status });
+
+  const message = describeRun(listingsResult, currencyResult, skrResult, liveNotifications);
+  const { changed, skipped } = await selectChangedFiles(store, files, writeLog);
+  return { oldStatus, status, listingsResult, watchlistMatches, alertEvents, liveNotifications, message, changed, skipped };
+}
+
+// Fetches the selected feeds once, then writes the generated files that actually changed in one batch
+async function runFeedsUnderLease(
+  store: FeedStore,
+  feedNames: FeedName[],
+  writeLog: Logger,
+  options: RunOptions
+): Promise<RunSummary> {
+  const startTime = new Date().toISOString();
+  const deviceStore = options.deviceStore || store;
+
+  const exchangeFetches = feedNames.includes('listings') ? await fetchCEXListings(writeLog, options.fetch) : null;
+  const currencyResult = feedNames.includes('currencies') ? await updateWorldCurrencies(writeLog, options.fetch) : null;
+  const skrResult = feedNames.includes('skr') ? await updateSKRStats(writeLog, options.fetch) : null;
+
+  // A push that lands between read and commit on a file we write is merged into, like updateFile
+  // does: re-read the store and rebuild every file from the same fetches, without refetching
+  let run: MergedRun;
+  for (let attempt = 1; ; attempt++) {
+    run = await mergeRun(store, deviceStore, exchangeFetches, currencyResult, skrResult, startTime, writeLog);
+    try {
+      if (run.changed.length > 0) {
+        await store.writeBatch(run.changed, run.message);
+      } else {
+        writeLog('No content changes, nothing to write');
+      }
+      break;
+    } catch (error) {
+      if (!(error instanceof WriteConflictError) || attempt === COMMIT_ATTEMPTS) throw error;
+      writeLog(`⚠ ${error.message}, re-merging (attempt ${attempt}/${COMMIT_ATTEMPTS})`);
+    }
+  }
+  const { oldStatus, listingsResult, watchlistMatches, alertEvents, liveNotifications, message, changed, skipped } = run;
+  let status = run.status;
+
+  const summary: Omit<RunSummary, 'success' | 'status' | 'changedFiles' | 'skippedFiles' | 'message'> = {};
+  if (listingsResult) {
+    summary.cexListings = { success: listingsResult.success, errors: listingsResult.errors };
+  }
+  if (currencyResult) {
+    summary.worldCurrencies = { success: currencyResult.success, error: currencyResult.error };
+  }
+  if (skrResult) {
+    summary.skrStats = { success: skrResult.success, error: skrResult.error };
+  }
+
+  // Announce only what is committed: a run whose write failed re-detects the same events next time
+  const alerts = await sendAlerts(alertEvents, oldStatus.alerts || [], writeLog, options.fetch);
+  const webhooks: WebhookDelivery[] = listingsResult
+    ? await notifyWebhooks(listingsResult.newListings, writeLog, options.fetch)
+    : [];
+  const push = await dispatchPush(
+    deviceStore,
+    { notifications: liveNotifications.live, newListings: listingsResult?.newListings || [], watchlistMatches },
+    oldStatus.pushedNotificationIds,
+    options.pushProviders || defaultPushProviders(writeLog),
+    writeLog
+  );
+
+  // Delivery logs and push device cleanup are best-effort; losing them never re-announces
+  status = recordDeliveries(status, { webhooks, alerts });
+  const deliveryCandidates: FileUpdate[] = [{ path: 'status.json', content: status }];
+  if (push.unregistered.length > 0) {
+    try {
+      if (deviceStore === store) {
+        // Same store: we already hold its lease, so the cleanup rides along with the delivery log
+        const devices = await readOptional<PushDevicesData>(store, PUSH_DEVICES_FILE, EMPTY_PUSH_DEVICES);
+        deliveryCandidates.push({ path: PUSH_DEVICES_FILE, content: removePushDevices(devices, push.unregistered) });
+      } else {
+        // Re-read under the device lease so registrations made during the run survive
+        const options = {
+          ttlMs: DEVICE_LEASE_TTL_MS,
+          attempts: DEVICE_LEASE_ATTEMPTS,
+          message: `Remove ${push.unregistered.length} unregistered push device(s)`,
+        };
+        await updateFile(deviceStore, PUSH_DEVICES_FILE, EMPTY_PUSH_DEVICES, options, writeLog,
+          (devices) => removePushDevices(devices, push.unregistered));
+      }
+      writeLog(`✓ Removed ${push.unregistered.length} unregistered push device(s)`);
+    } catch (error) {
+      writeLog(`⚠ Could not remove unregistered push devices: ${error}`);
+    }
+  }
+  const deliveryFiles = await selectChangedFiles(store, deliveryCandidates, writeLog);
+  if (deliveryFiles.changed.length > 0) {
+    try {
+      await store.writeBatch(deliveryFiles.changed, 'Record alert, webhook and push deliveries');
+    } catch (error) {
+      writeLog(`⚠ Could not record deliveries: ${error}`);
+    }
+  }
+
+  const changedFiles = [...changed, ...deliveryFiles.changed].map((file) => file.path);
+  return {
+    success: Object.values(summary).every((result) => result.success),
+    status,
+    message,
+    changedFiles: [...new Set(changedFiles)],
+    skippedFiles: skipped.filter((path) => !changedFiles.includes(path)),
+    ...summary,
+  };
+}
@@ -0,0 +1,193 @@
+import fetch, { RequestInit, Response } from 'node-fetch';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const REQUEST_TIMEOUT_MS = Number(process.env.FETCH_TIMEOUT_MS) || 8000;
+export const REQUEST_RETRIES = Number(process.env.FETCH_RETRIES) || 2;
+
+const BODY_SNIPPET_LENGTH = 120;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// node-fetch by default; a run can be handed another one to serve every upstream from fixtures
+export type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+export type FetchErrorCategory =
+  | 'http_status'
+  | 'rate_limited'
+  | 'geo_blocked'                               // HTML/WAF page or 403/451 instead of JSON
+  | 'schema_mismatch'
+  | 'timeout'
+  | 'network'
+  | 'unknown';
+
+export interface FeedError {
+  category: FetchErrorCategory;
+  message: string;
+  httpStatus?: number;
+  url?: string;
+  bodySnippet?: string;
+}
+
+export class FeedFetchError extends Error {
+  detail: FeedError;
+
+  constructor(detail: FeedError) {
+    super(detail.message);
+    this.name = 'FeedFetchError';
+    this.detail = detail;
+  }
+}
+
+export function toFeedError(error: unknown): FeedError {
+  if (error instanceof FeedFetchError) {
+    return error.detail;
+  }
+  return { category: 'unknown', message: String(error) };
+}
+
+// Persistent failures that a retry against the same URL won't fix
+export function isPermanentFailure(error: unknown): boolean {
+  const category = toFeedError(error).category;
+  return category === 'geo_blocked' || category === 'schema_mismatch';
+}
+
+// ============================================================================
+// RATE LIMITING
+// ============================================================================
+
+export const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  retries = REQUEST_RETRIES,
+  shouldRetry: (error: unknown) => boolean = () => true
+): Promise<T> {
+  let lastError: any;
+
+  for (let i = 0; i < retries; i++) {
+    try {
+      return await fn();
+    } catch (error) {
+      lastError = error;
+      if (!shouldRetry(error)) {
+        break;
+      }
+      if (i < retries - 1) {
+        const backoff = Math.pow(2, i) * 1000;
+        await delay(backoff);
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+// node-fetch's timeout covers both the response headers and the body download
+export async function fetchWithTimeout(
+  url: string,
+  options: RequestInit = {},
+  timeoutMs = REQUEST_TIMEOUT_MS,
+  fetchImpl: FetchLike = fetch
+): Promise<Response> {
+  try {
+    return await fetchImpl(url, { ...options, timeout: timeoutMs });
+  } catch (error: any) {
+    if (error && error.type === 'request-timeout') {
+      throw new FeedFetchError({ category: 'timeout', message: `Timed out after ${timeoutMs}ms`, url });
+    }
+    throw new FeedFetchError({ category: 'network', message: String(error), url });
+  }
+}
+
+// Fetches and parses a JSON API response, classifying every way it can go wrong
+export async function fetchJSON(url: string, options: RequestInit = {}, fetchImpl?: FetchLike): Promise<any> {
+  const response = await fetchWithTimeout(url, options, undefined, fetchImpl);
+
+  let body: string;
+  try {
+    body = await response.text();
+  } catch (error: any) {
+    const category = error && error.type === 'body-timeout' ? 'timeout' : 'network';
+    throw new FeedFetchError({ category, message: String(error), url, httpStatus: response.status });
+  }
+
+  const bodySnippet = body.slice(0, BODY_SNIPPET_LENGTH);
+  const contentType = response.headers.get('content-type') || '';
+  const looksLikeHtml = contentType.includes('text/html') || /^\s*</.test(body);
+
+  if (response.status === 429 || response.status === 418) {
+    throw new FeedFetchError({
+      category: 'rate_limited',
+      message: `Rate limited (HTTP ${response.status})`,
+      httpStatus: response.status,
+      url,
+      bodySnippet,
+    });
+  }
+
+  if (response.status === 403 || response.status === 451 || (looksLikeHtml && !response.ok)) {
+    throw new FeedFetchError({
+      category: 'geo_blocked',
+      message: `Blocked by region or WAF (HTTP ${response.status})`,
+      httpStatus: response.status,
+      url,
+      bodySnippet,
+    });
+  }
+
+  if (!response.ok) {
+    throw new FeedFetchError({
+      category: 'http_status',
+      message: `HTTP ${response.status}`,
+      httpStatus: response.status,
+      url,
+      bodySnippet,
+    });
+  }
+
+  try {
+    return JSON.parse(body);
+  } catch (error) {
+    throw new FeedFetchError({
+      category: looksLikeHtml ? 'geo_blocked' : 'schema_mismatch',
+      message: looksLikeHtml ? 'HTML page instead of JSON' : `Invalid JSON body: ${error}`,
+      httpStatus: response.status,
+      url,
+      bodySnippet,
+    });
+  }
+}
+
+// ============================================================================
+// CONCURRENCY
+// ============================================================================
+
+// Runs fn over items with at most `limit` in flight; results keep input order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, () => worker());
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,460 @@
+import {
+  EXCHANGE_ADAPTERS,
+  ListedPair,
+  MarketType,
+  adapterFeedId,
+  adapterLabel,
+  fetchExchangePairs,
+  splitSymbol,
+} from './exchange-adapters';
+import { FetchLike, mapWithConcurrency, toFeedError } from './http';
+import { FeedResult } from './status';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ExchangeSnapshot = Partial<Record<MarketType, ListedPair[]>>;
+
+// A bare symbol when splitSymbol recovers its assets, the full pair otherwise
+export type StoredPair = ListedPair | string;
+export type StoredExchangeSnapshot = Partial<Record<MarketType, StoredPair[]>> | StoredPair[];
+
+export interface ExchangeListings {
+  lastUpdated: string | null;
+  exchanges: Record<string, StoredExchangeSnapshot>;
+}
+
+export interface NewListing extends ListedPair {
+  exchange: string;
+  marketType: MarketType;
+  detectedAt: string;
+  // Cross-exchange context; absent on listings recorded before it was tracked
+  isFirstListing?: boolean;                     // base asset not on any tracked exchange yet
+  listedOn?: string[];                          // other exchanges already carrying the base asset
+  firstListedOn?: string | null;                // earliest known exchange, null if before our history
+}
+
+export interface Delisting extends ListedPair {
+  exchange: string;
+  marketType: MarketType;
+  detectedAt: string;
+}
+
+export interface DelistingsData {
+  lastChecked: string | null;
+  delistings: Delisting[];
+}
+
+export interface AssetRollup {
+  firstSeen: string;
+  lastSeen: string;
+  exchanges: Record<string, number>;            // exchange name -> pairs listed
+}
+
+export interface NewListingsData {
+  lastChecked: string | null;
+  listings: NewListing[];
+  assets?: Record<string, AssetRollup>;         // keyed by base asset
+}
+
+export interface QuarantinedSnapshot {
+  exchange: string;
+  marketType: MarketType;
+  previousCount: number;
+  currentCount: number;
+  added: number;
+  removed: number;
+  reason: string;
+  sample: string[];                             // a few symbols from the rejected diff
+  detectedAt: string;
+}
+
+// One adapter's raw response, kept so a conflicting commit can be re-diffed without refetching
+export interface ExchangeFetch {
+  fetched?: ExchangeSnapshot;
+  error?: unknown;
+  responseTimeMs: number;
+}
+
+export interface ListingsUpdate {
+  exchanges: Record<string, ExchangeSnapshot>;
+  newListings: NewListing[];
+  delistings: Delisting[];
+  quarantined: QuarantinedSnapshot[];
+  feeds: FeedResult[];
+  errors: string[];
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const RETENTION_DAYS = 30; // Keep listings and delistings for 30 days
+
+// Snapshots that grow, shrink or churn by more than this fraction are quarantined
+export const MAX_SNAPSHOT_CHANGE = Number(process.env.LISTINGS_MAX_CHANGE_FRACTION) || 0.25;
+
+// Small markets churn heavily relative to their size and are not guarded
+const MIN_GUARDED_SNAPSHOT = 50;
+
+const QUARANTINE_SAMPLE_SIZE = 10;
+
+// Exchange endpoints fetched at the same time
+const FETCH_CONCURRENCY = Number(process.env.EXCHANGE_FETCH_CONCURRENCY) || 5;
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+export function normalizeSymbol(symbol: string): string {
+  // Remove common separators and convert to uppercase
+  return symbol.replace(/[-_\/]/g, '').toUpperCase();
+}
+
+// Dated futures roll over on schedule, so they are compared by underlying: a new expiry of a
+// listed underlying is not a listing, and an expiring contract is not a delisting
+function listingKey(pair: ListedPair, marketType: MarketType): string {
+  return marketType === 'futures'
+    ? `${pair.baseAsset}/${pair.quoteAsset}`.toUpperCase()
+    : normalizeSymbol(pair.symbol);
+}
+
+function isQuoteFirst(exchangeId: string): boolean {
+  return EXCHANGE_ADAPTERS.some((adapter) => adapter.id === exchangeId && adapter.quoteFirst);
+}
+
+function toListedPairs(list: StoredPair[], quoteFirst: boolean): ListedPair[] {
+  return list.map((entry) =>
+    typeof entry === 'string' ? { symbol: entry, ...splitSymbol(entry, quoteFirst) } : entry
+  );
+}
+
+// Older snapshots hold a flat spot-only list
+export function toExchangeSnapshot(
+  exchangeId: string,
+  value: StoredExchangeSnapshot | undefined
+): ExchangeSnapshot | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const quoteFirst = isQuoteFirst(exchangeId);
+  if (Array.isArray(value)) {
+    return { spot: toListedPairs(value, quoteFirst) };
+  }
+
+  const snapshot: ExchangeSnapshot = {};
+  for (const [marketType, list] of Object.entries(value)) {
+    snapshot[marketType as MarketType] = toListedPairs(list || [], quoteFirst);
+  }
+  return snapshot;
+}
+
+// cex-listings.json outgrows the 1 MB GitHub contents limit with a full object per pair
+export function toStoredSnapshot(exchangeId: string, snapshot: ExchangeSnapshot): StoredExchangeSnapshot {
+  const quoteFirst = isQuoteFirst(exchangeId);
+  const stored: Partial<Record<MarketType, StoredPair[]>> = {};
+  for (const [marketType, pairs] of Object.entries(snapshot)) {
+    stored[marketType as MarketType] = (pairs || []).map((pair) => {
+      const split = splitSymbol(pair.symbol, quoteFirst);
+      return split.baseAsset === pair.baseAsset && split.quoteAsset === pair.quoteAsset ? pair.symbol : pair;
+    });
+  }
+  return stored;
+}
+
+// ============================================================================
+// LISTING DETECTION
+// ============================================================================
+
+export async function detectNewListings(
+  oldPairs: ListedPair[],
+  newPairs: ListedPair[],
+  exchangeName: string,
+  marketType: MarketType
+): Promise<NewListing[]> {
+  const oldKeys = new Set(oldPairs.map((p) => listingKey(p, marketType)));
+  const newListings: NewListing[] = [];
+
+  for (const pair of newPairs) {
+    const key = listingKey(pair, marketType);
+    if (!oldKeys.has(key)) {
+      oldKeys.add(key); // Several expiries of a new underlying are one listing
+      newListings.push({
+        exchange: exchangeName,
+        marketType,
+        symbol: pair.symbol,
+        baseAsset: pair.baseAsset,
+        quoteAsset: pair.quoteAsset,
+        detectedAt: new Date().toISOString(),
+      });
+    }
+  }
+
+  return newListings;
+}
+
+// Pairs that were trading in the previous snapshot but are gone now (halted or delisted)
+export async function detectDelistings(
+  oldPairs: ListedPair[],
+  newPairs: ListedPair[],
+  exchangeName: string,
+  marketType: MarketType
+): Promise<Delisting[]> {
+  const newKeys = new Set(newPairs.map((p) => listingKey(p, marketType)));
+  const delistings: Delisting[] = [];
+
+  for (const pair of oldPairs) {
+    const key = listingKey(pair, marketType);
+    if (!newKeys.has(key)) {
+      newKeys.add(key); // One delisting per underlying, however many expiries it had
+      delistings.push({
+        exchange: exchangeName,
+        marketType,
+        symbol: pair.symbol,
+        baseAsset: pair.baseAsset,
+        quoteAsset: pair.quoteAsset,
+        detectedAt: new Date().toISOString(),
+      });
+    }
+  }
+
+  return delistings;
+}
+
+// Returns why a snapshot looks like an outage artefact, or null if it looks sane
+export function checkSnapshotSanity(
+  oldCount: number,
+  newCount: number,
+  added: number,
+  removed: number
+): string | null {
+  // Guarded when either side is large, so an emptied snapshot can't unguard the next run
+  if (Math.max(oldCount, newCount) < MIN_GUARDED_SNAPSHOT) {
+    return null;
+  }
+  if (oldCount === 0) {
+    return `Snapshot grew from 0 to ${newCount} pairs`;
+  }
+
+  const sizeChange = (newCount - oldCount) / oldCount;
+  if (Math.abs(sizeChange) > MAX_SNAPSHOT_CHANGE) {
+    const percent = (sizeChange * 100).toFixed(1);
+    return `Snapshot size changed from ${oldCount} to ${newCount} pairs (${sizeChange > 0 ? '+' : ''}${percent}%)`;
+  }
+
+  if ((added + removed) / oldCount > MAX_SNAPSHOT_CHANGE) {
+    return `${added} added and ${removed} removed out of ${oldCount} pairs`;
+  }
+
+  return null;
+}
+
+export function cleanOldListings<T extends { detectedAt: string }>(listings: T[]): T[] {
+  const cutoffDate = new Date();
+  cutoffDate.setDate(cutoffDate.getDate() - RETENTION_DAYS);
+
+  return listings.filter((listing) => {
+    const listingDate = new Date(listing.detectedAt);
+    return listingDate >= cutoffDate;
+  });
+}
+
+// "OFC: OKX x5, first seen ..." - groups retained listings by base asset
+export function buildAssetRollup(listings: NewListing[]): Record<string, AssetRollup> {
+  const assets: Record<string, AssetRollup> = {};
+
+  for (const listing of listings) {
+    const rollup = (assets[listing.baseAsset] = assets[listing.baseAsset] || {
+      firstSeen: listing.detectedAt,
+      lastSeen: listing.detectedAt,
+      exchanges: {},
+    });
+
+    if (listing.detectedAt < rollup.firstSeen) rollup.firstSeen = listing.detectedAt;
+    if (listing.detectedAt > rollup.lastSeen) rollup.lastSeen = listing.detectedAt;
+    rollup.exchanges[listing.exchange] = (rollup.exchanges[listing.exchange] || 0) + 1;
+  }
+
+  return assets;
+}
+
+// Marks genuine first listings versus follow-on listings (e.g. Upbit after Binance)
+export function annotateCrossExchange(
+  listings: NewListing[],
+  previous: Record<string, ExchangeSnapshot>,
+  history: NewListing[]
+): NewListing[] {
+  const exchangeNames = new Map(EXCHANGE_ADAPTERS.map((a) => [a.id, a.name]));
+
+  // Base asset -> exchanges that carried it before this run
+  const carriers = new Map<string, Set<string>>();
+  for (const [id, snapshot] of Object.entries(previous)) {
+    const name = exchangeNames.get(id) || id;
+    for (const pairs of Object.values(snapshot)) {
+      for (const pair of pairs || []) {
+        const base = pair.baseAsset.toUpperCase();
+        if (!carriers.has(base)) carriers.set(base, new Set());
+        carriers.get(base)!.add(name);
+      }
+    }
+  }
+
+  // Base asset -> earliest recorded listing, from retained history then this run
+  const earliest = new Map<string, NewListing>();
+  for (const listing of [...history, ...listings]) {
+    const base = listing.baseAsset.toUpperCase();
+    const known = earliest.get(base);
+    if (!known || listing.detectedAt < known.detectedAt) {
+      earliest.set(base, listing);
+    }
+  }
+
+  return listings.map((listing) => {
+    const base = listing.baseAsset.toUpperCase();
+    const existing = carriers.get(base);
+    const listedOn = [...(existing || [])].filter((name) => name !== listing.exchange);
+    const recordedInHistory = history.some((h) => h.baseAsset.toUpperCase() === base);
+    const isFirstListing = !existing && !recordedInHistory;
+
+    return {
+      ...listing,
+      isFirstListing,
+      listedOn,
+      // Carried somewhere before our history started - the first venue is unknown
+      firstListedOn: existing && !recordedInHistory ? null : earliest.get(base)!.exchange,
+    };
+  });
+}
+
+// Fetches every adapter concurrently; results follow EXCHANGE_ADAPTERS order
+export async function fetchExchanges(
+  writeLog: (message: string) => void,
+  fetchImpl?: FetchLike
+): Promise<ExchangeFetch[]> {
+  return mapWithConcurrency(EXCHANGE_ADAPTERS, FETCH_CONCURRENCY, async (adapter): Promise<ExchangeFetch> => {
+    const started = Date.now();
+    try {
+      const fetched = await fetchExchangePairs(adapter, writeLog, fetchImpl);
+      return { fetched, responseTimeMs: Date.now() - started };
+    } catch (error) {
+      return { error, responseTimeMs: Date.now() - started };
+    }
+  });
+}
+
+// Diffs fetched snapshots against the stored ones in registry order, so output stays deterministic
+export async function diffExchangeListings(
+  fetches: ExchangeFetch[],
+  previous: Record<string, StoredExchangeSnapshot>,
+  history: NewListing[],
+  previousQuarantine: QuarantinedSnapshot[],
+  writeLog: (message: string) => void
+): Promise<ListingsUpdate> {
+  const oldExchanges: Record<string, ExchangeSnapshot> = {};
+  const exchanges: Record<string, ExchangeSnapshot> = {};
+  const newListings: NewListing[] = [];
+  const delistings: Delisting[] = [];
+  const quarantined: QuarantinedSnapshot[] = [];
+  const feeds: FeedResult[] = [];
+  const errors: string[] = [];
+
+  for (const [index, adapter] of EXCHANGE_ADAPTERS.entries()) {
+    const oldSnapshot = (oldExchanges[adapter.id] =
+      oldExchanges[adapter.id] || toExchangeSnapshot(adapter.id, previous[adapter.id]) || {});
+    const snapshot = (exchanges[adapter.id] = exchanges[adapter.id] || {});
+    const { fetched, error: fetchError, responseTimeMs } = fetches[index];
+
+    try {
+      if (!fetched) throw fetchError;
+      feeds.push({
+        feed: adapterFeedId(adapter),
+        success: true,
+        responseTimeMs,
+        itemCount: Object.values(fetched).reduce((sum, pairs) => sum + pairs.length, 0),
+      });
+
+      for (const marketType of adapter.marketTypes) {
+        const pairs = fetched[marketType] || [];
+        const oldPairs = oldSnapshot[marketType];
+        snapshot[marketType] = pairs;
+
+        // First snapshot for a newly tracked market - nothing to compare against
+        if (!oldPairs) {
+          if (pairs.length === 0) {
+            delete snapshot[marketType]; // Seed from the first non-empty response instead
+            continue;
+          }
+          writeLog(`${adapter.name} ${marketType}: no previous snapshot, seeding ${pairs.length} pair(s)`);
+          continue;
+        }
+
+        const detected = await detectNewListings(oldPairs, pairs, adapter.name, marketType);
+        const removed = await detectDelistings(oldPairs, pairs, adapter.name, marketType);
+
+        const reason = checkSnapshotSanity(oldPairs.length, pairs.length, detected.length, removed.length);
+        if (reason) {
+          const earlier = previousQuarantine.find(
+            (q) => q.exchange === adapter.name && q.marketType === marketType
+          );
+
+          // The same suspicious size seen twice in a row is a real change: adopt it
+          // as the new baseline, but still don't publish the diff. Never adopt a size
+          // too small to be guarded, or an outage would unguard the run after it.
+          if (earlier && pairs.length >= MIN_GUARDED_SNAPSHOT && Math.abs(earlier.currentCount - pairs.length) <= Math.max(1, pairs.length * 0.02)) {
+            writeLog(`⚠ ${adapter.name} ${marketType}: ${reason} - confirmed, rebaselining without notifications`);
+            continue;
+          }
+
+          writeLog(`⚠ ${adapter.name} ${marketType}: ${reason} - quarantined`);
+          quarantined.push({
+            exchange: adapter.name,
+            marketType,
+            previousCount: oldPairs.length,
+            currentCount: pairs.length,
+            added: detected.length,
+            removed: removed.length,
+            reason,
+            sample: [...detected, ...removed].slice(0, QUARANTINE_SAMPLE_SIZE).map((l) => l.symbol),
+            detectedAt: earlier?.detectedAt || new Date().toISOString(),
+          });
+          snapshot[marketType] = oldPairs; // Keep old data
+          continue;
+        }
+
+        newListings.push(...detected);
+        if (detected.length > 0) {
+          writeLog(`🆕 ${adapter.name} ${marketType}: ${detected.length} new listing(s)`);
+        }
+
+        delistings.push(...removed);
+        if (removed.length > 0) {
+          writeLog(`🚫 ${adapter.name} ${marketType}: ${removed.length} delisted pair(s)`);
+        }
+      }
+    } catch (error) {
+      errors.push(`${adapterLabel(adapter)}: ${error}`);
+      feeds.push({
+        feed: adapterFeedId(adapter),
+        success: false,
+        error: toFeedError(error),
+        responseTimeMs,
+        itemCount: null,
+      });
+      // Keep old data; a market that was never fetched stays unseeded
+      for (const marketType of adapter.marketTypes) {
+        if (oldSnapshot[marketType]) {
+          snapshot[marketType] = oldSnapshot[marketType];
+        }
+      }
+    }
+  }
+
+  const annotated = annotateCrossExchange(newListings, oldExchanges, history);
+  const firstListings = annotated.filter((l) => l.isFirstListing);
+  if (firstListings.length > 0) {
+    writeLog(`⭐ ${firstListings.length} first listing(s) across tracked exchanges`);
+  }
+
+  return { exchanges, newListings: annotated, delistings, quarantined, feeds, errors };
+}
@@ -0,0 +1,40 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type Logger = (message: string) => void;
+
+// ============================================================================
+// LOGGERS
+// ============================================================================
+
+// Serverless: stdout only, timestamped
+export function createConsoleLogger(): Logger {
+  return (message: string) => {
+    const timestamp = new Date().toISOString();
+    console.log(`[${timestamp}] ${message}`);
+  };
+}
+
+// Local scripts: appends to logs/<prefix>-<date>.log and echoes to stdout
+export function createFileLogger(logsDir: string, prefix: string): Logger {
+  return (message: string) => {
+    const timestamp = new Date().toISOString();
+    const logMessage = `[${timestamp}] ${message}\n`;
+
+    if (!fs.existsSync(logsDir)) {
+      fs.mkdirSync(logsDir, { recursive: true });
+    }
+
+    const logFile = path.join(
+      logsDir,
+      `${prefix}-${new Date().toISOString().split('T')[0]}.log`
+    );
+
+    fs.appendFileSync(logFile, logMessage, 'utf-8');
+    console.log(message);
+  };
+}
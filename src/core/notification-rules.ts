@@ -0,0 +1,188 @@
+import { createHash } from 'crypto';
+import { AlertEvent } from './notifiers';
+import { GeneratedNotifications, Notification, NotificationType, validateNotification } from './notifications';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type FeedEvent =
+  | AlertEvent
+  | { type: 'apy_change'; previous: number; current: number; detectedAt: string };
+
+interface GeneratedContent {
+  key: string;                                  // stable per event, becomes the id "auto-<key>"
+  type: NotificationType;
+  emoji: string;
+  title: string;
+  message: string;
+  expiresInHours: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const AUTO_NOTIFICATIONS = process.env.AUTO_NOTIFICATIONS !== 'off';
+
+// Listings of these assets anywhere, and any listing on these exchanges, become notifications
+const AUTO_NOTIFY_ASSETS = (process.env.AUTO_NOTIFY_ASSETS || 'SKR')
+  .split(',').map((a) => a.trim().toUpperCase()).filter(Boolean);
+const AUTO_NOTIFY_EXCHANGES = (process.env.AUTO_NOTIFY_EXCHANGES || 'Upbit')
+  .split(',').map((e) => e.trim().toLowerCase()).filter(Boolean);
+
+// Percentage points the SKR APY has to move before users hear about it
+const AUTO_NOTIFY_APY_DELTA = Number(process.env.AUTO_NOTIFY_APY_DELTA) || 1;
+
+const LISTING_TTL_HOURS = 72;
+const APY_TTL_HOURS = 72;
+const FEED_DOWN_TTL_HOURS = 24;
+
+// Only feeds users notice in the app; a single exchange endpoint failing is ops noise
+const FEED_LABELS: Record<string, string> = {
+  'cex-listings': 'Exchange listings',
+  'skr-stats': 'SKR staking stats',
+  'world-currencies': 'Currency conversion',
+};
+
+const AUTO_ID_PREFIX = 'auto-';
+
+// Keeps a burst (e.g. Upbit listing a batch of assets) from flooding the feed;
+// the rest of the run's entries are folded into one digest
+const MAX_GENERATED_PER_RUN = 5;
+const DIGEST_TITLES = 3;
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function isNotableListing(asset: string, exchange: string): boolean {
+  return AUTO_NOTIFY_ASSETS.includes(asset) || AUTO_NOTIFY_EXCHANGES.includes(exchange.toLowerCase());
+}
+
+function formatPercent(value: number): string {
+  return `${Number(value.toFixed(2))}%`;
+}
+
+const RULES: { [T in FeedEvent['type']]: (event: Extract<FeedEvent, { type: T }>) => GeneratedContent | null } = {
+  // One notification per asset and exchange, whichever market or quote listed first
+  new_listing: ({ listing }) => {
+    if (!isNotableListing(listing.baseAsset, listing.exchange)) return null;
+    return {
+      key: `listing-${slug(listing.baseAsset)}-${slug(listing.exchange)}-${listing.detectedAt.slice(0, 10)}`,
+      type: 'custom',
+      emoji: '🚀',
+      title: `${listing.baseAsset} listed on ${listing.exchange}`,
+      message: listing.isFirstListing
+        ? `${listing.baseAsset}/${listing.quoteAsset} is live on ${listing.exchange}, its first listing on a tracked exchange`
+        : `${listing.baseAsset}/${listing.quoteAsset} (${listing.marketType}) is now trading on ${listing.exchange}`,
+      expiresInHours: LISTING_TTL_HOURS,
+    };
+  },
+  delisting: ({ delisting }) => {
+    if (!AUTO_NOTIFY_ASSETS.includes(delisting.baseAsset)) return null;
+    return {
+      key: `delisting-${slug(delisting.baseAsset)}-${slug(delisting.exchange)}-${delisting.detectedAt.slice(0, 10)}`,
+      type: 'custom',
+      emoji: '⚠️',
+      title: `${delisting.baseAsset} delisted from ${delisting.exchange}`,
+      message: `${delisting.exchange} no longer lists ${delisting.baseAsset}/${delisting.quoteAsset} (${delisting.marketType})`,
+      expiresInHours: LISTING_TTL_HOURS,
+    };
+  },
+  apy_change: ({ previous, current, detectedAt }) => {
+    if (Math.abs(current - previous) < AUTO_NOTIFY_APY_DELTA) return null;
+    const direction = current > previous ? 'rose' : 'dropped';
+    return {
+      key: `skr-apy-${detectedAt.slice(0, 10)}-${slug(String(current))}`,
+      type: 'custom',
+      emoji: current > previous ? '📈' : '📉',
+      title: `SKR APY ${direction} to ${formatPercent(current)}`,
+      message: `SKR staking APY ${direction} from ${formatPercent(previous)} to ${formatPercent(current)}`,
+      expiresInHours: APY_TTL_HOURS,
+    };
+  },
+  // One per outage, identified by the success it followed; expired again on recovery
+  feed_failure: ({ feed, lastSuccess }) => {
+    const label = FEED_LABELS[feed];
+    if (!label) return null;
+    return {
+      key: `feed-down-${feed}-${slug(lastSuccess || 'never')}`,
+      type: 'maintenance',
+      emoji: '🛠️',
+      title: `${label} temporarily unavailable`,
+      message: `${label} may be out of date while we restore the data source`,
+      expiresInHours: FEED_DOWN_TTL_HOURS,
+    };
+  },
+  feed_recovered: () => null,
+};
+
+// ============================================================================
+// GENERATION
+// ============================================================================
+
+function toNotification(content: GeneratedContent, now: Date): Notification {
+  return validateNotification({
+    id: `${AUTO_ID_PREFIX}${content.key}`.slice(0, 64).replace(/-+$/, ''),
+    title: content.title,
+    message: content.message,
+    date: now.toISOString().slice(0, 10),
+    type: content.type,
+    isRead: false,
+    isSticky: false,
+    expiresAt: new Date(now.getTime() + content.expiresInHours * 60 * 60 * 1000).toISOString(),
+    metadata: { emoji: content.emoji },
+  });
+}
+
+// The digest id hashes the folded keys, so the same burst always yields the same digest
+function digestContent(overflow: GeneratedContent[], now: Date): GeneratedContent {
+  const hash = createHash('sha256').update(overflow.map((c) => c.key).join('|')).digest('hex').slice(0, 8);
+  const titles = overflow.slice(0, DIGEST_TITLES).map((c) => c.title).join('; ');
+  const more = overflow.length - DIGEST_TITLES;
+  return {
+    key: `digest-${now.toISOString().slice(0, 10)}-${hash}`,
+    type: 'custom',
+    emoji: '📰',
+    title: `${overflow.length} more updates`,
+    message: more > 0 ? `${titles} and ${more} more` : titles,
+    expiresInHours: Math.max(...overflow.map((c) => c.expiresInHours)),
+  };
+}
+
+// Turns this run's events into notifications.json entries; ids repeat for the same event,
+// so updateLiveNotifications can drop ones that were already generated
+export function generateNotifications(events: FeedEvent[], now: Date = new Date()): GeneratedNotifications {
+  const generated: GeneratedNotifications = { notifications: [], resolvedPrefixes: [] };
+  if (!AUTO_NOTIFICATIONS) {
+    return generated;
+  }
+
+  const contents: GeneratedContent[] = [];
+  for (const event of events) {
+    if (event.type === 'feed_recovered' && FEED_LABELS[event.feed]) {
+      generated.resolvedPrefixes.push(`${AUTO_ID_PREFIX}feed-down-${event.feed}-`);
+      continue;
+    }
+
+    const content = (RULES[event.type] as (event: FeedEvent) => GeneratedContent | null)(event);
+    if (content && !contents.some((c) => c.key === content.key)) {
+      contents.push(content);
+    }
+  }
+
+  const capped = contents.length > MAX_GENERATED_PER_RUN
+    ? [
+      ...contents.slice(0, MAX_GENERATED_PER_RUN - 1),
+      digestContent(contents.slice(MAX_GENERATED_PER_RUN - 1), now),
+    ]
+    : contents;
+  generated.notifications = capped.map((content) => toNotification(content, now));
+
+  return generated;
+}
@@ -0,0 +1,529 @@
+import { Logger } from './logger';
+import { FeedStore, FileUpdate, readOptional } from './store';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type NotificationType = 'update' | 'promotion' | 'maintenance' | 'polymarket_starred' | 'custom';
+
+export type NotificationSection =
+  | { type: 'text'; content: string }
+  | { type: 'list'; content: string[] }
+  | { type: 'cta'; content: string; buttonText: string; buttonLink: string };
+
+export type NotificationPlatform = 'android' | 'ios';
+
+// Every criterion present must match the client; an entry without audience goes to everyone
+export interface NotificationAudience {
+  minAppVersion?: string;                       // inclusive, e.g. "1.0.5"
+  maxAppVersion?: string;                       // inclusive
+  platforms?: NotificationPlatform[];
+  locales?: string[];                           // "ko" matches "ko-KR"
+  wallets?: string[];                           // base58 wallet addresses
+}
+
+// What a client reports about itself when asking for its feed
+export interface NotificationClient {
+  appVersion?: string;
+  platform?: string;
+  locale?: string;
+  wallet?: string;
+}
+
+// Per-locale variants; a field missing here falls back along the locale chain to the base entry
+export interface NotificationTranslation {
+  title?: string;
+  message?: string;
+  sections?: NotificationSection[];             // one per base section, same types in the same order
+}
+
+export interface NotificationMetadata {
+  emoji?: string;
+  sections?: NotificationSection[];
+}
+
+export interface Notification {
+  id: string;
+  title: string;
+  message: string;
+  date: string;                                 // YYYY-MM-DD
+  type: NotificationType;
+  isRead: boolean;
+  isSticky: boolean;
+  expiresAt: string | null;                     // ISO timestamp, null = never
+  publishAt?: string;                           // ISO timestamp; future entries wait in the scheduled file
+  audience?: NotificationAudience;
+  translations?: Record<string, NotificationTranslation>;  // keyed by locale, e.g. "ko", "pt-BR"
+  metadata?: NotificationMetadata;
+}
+
+export interface ArchivedNotification extends Notification {
+  archivedAt: string;
+}
+
+// Entries produced by notification rules during a run
+export interface GeneratedNotifications {
+  notifications: Notification[];
+  resolvedPrefixes: string[];                   // live ids starting with these are expired now, e.g. an outage that ended
+}
+
+export interface LiveNotificationsResult {
+  files: FileUpdate[];
+  live: Notification[] | null;                  // untargeted live feed after this run, null when it could not be read
+  published: string[];
+  generated: string[];
+  archived: string[];
+}
+
+export class NotificationValidationError extends Error {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid notification: ${errors.join('; ')}`);
+    this.name = 'NotificationValidationError';
+    this.errors = errors;
+  }
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const NOTIFICATIONS_FILE = 'notifications.json';
+export const SCHEDULED_NOTIFICATIONS_FILE = 'notifications-scheduled.json';
+export const NOTIFICATIONS_ARCHIVE_FILE = 'notifications-archive.json';
+// Entries with an audience are only served through /api/notifications, never statically
+export const TARGETED_NOTIFICATIONS_FILE = 'notifications-targeted.json';
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'update',
+  'promotion',
+  'maintenance',
+  'polymarket_starred',
+  'custom',
+];
+
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const LINK_PATTERN = /^(https:\/\/|tracktivity:\/\/)\S+$/;
+const VERSION_PATTERN = /^\d+(\.\d+){0,2}$/;
+const LOCALE_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+const WALLET_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+export const NOTIFICATION_PLATFORMS: NotificationPlatform[] = ['android', 'ios'];
+
+const AUDIENCE_KEYS = ['minAppVersion', 'maxAppVersion', 'platforms', 'locales', 'wallets'];
+const TRANSLATION_KEYS = ['title', 'message', 'sections'];
+
+const NOTIFICATION_KEYS = ['id', 'title', 'message', 'date', 'type', 'isRead', 'isSticky', 'expiresAt', 'publishAt', 'audience', 'translations', 'metadata'];
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isISOTimestamp(value: unknown): boolean {
+  return typeof value === 'string' && !isNaN(Date.parse(value)) && value.includes('T');
+}
+
+function isNonEmptyArrayOf(value: unknown, test: (item: any) => boolean): boolean {
+  return Array.isArray(value) && value.length > 0 && value.every(test);
+}
+
+function validateAudience(audience: any, errors: string[]): void {
+  if (!audience || typeof audience !== 'object' || Array.isArray(audience)) {
+    errors.push('audience must be an object');
+    return;
+  }
+
+  const unknownKeys = Object.keys(audience).filter((key) => !AUDIENCE_KEYS.includes(key));
+  if (unknownKeys.length > 0) errors.push(`unknown audience field(s): ${unknownKeys.join(', ')}`);
+
+  for (const key of ['minAppVersion', 'maxAppVersion']) {
+    if (audience[key] !== undefined && (typeof audience[key] !== 'string' || !VERSION_PATTERN.test(audience[key]))) {
+      errors.push(`audience.${key} must be a version such as 1.0.5`);
+    }
+  }
+  if (VERSION_PATTERN.test(audience.minAppVersion) && VERSION_PATTERN.test(audience.maxAppVersion) &&
+      compareVersions(audience.minAppVersion, audience.maxAppVersion) > 0) {
+    errors.push('audience.minAppVersion must not be above audience.maxAppVersion');
+  }
+  if (audience.platforms !== undefined &&
+      !isNonEmptyArrayOf(audience.platforms, (p) => NOTIFICATION_PLATFORMS.includes(p))) {
+    errors.push(`audience.platforms must be a non-empty array of: ${NOTIFICATION_PLATFORMS.join(', ')}`);
+  }
+  if (audience.locales !== undefined &&
+      !isNonEmptyArrayOf(audience.locales, (l) => typeof l === 'string' && LOCALE_PATTERN.test(l))) {
+    errors.push('audience.locales must be a non-empty array of locale tags such as ko or ja-JP');
+  }
+  if (audience.wallets !== undefined &&
+      !isNonEmptyArrayOf(audience.wallets, (w) => typeof w === 'string' && WALLET_PATTERN.test(w))) {
+    errors.push('audience.wallets must be a non-empty array of wallet addresses');
+  }
+}
+
+function validateTranslations(translations: any, baseSections: unknown, errors: string[]): void {
+  if (!translations || typeof translations !== 'object' || Array.isArray(translations)) {
+    errors.push('translations must be an object keyed by locale');
+    return;
+  }
+
+  for (const [locale, translation] of Object.entries<any>(translations)) {
+    const path = `translations.${locale}`;
+    if (!LOCALE_PATTERN.test(locale)) {
+      errors.push(`${path}: ${locale} is not a locale tag such as ko or ja-JP`);
+    }
+    if (!translation || typeof translation !== 'object' || Array.isArray(translation)) {
+      errors.push(`${path} must be an object`);
+      continue;
+    }
+
+    const unknownKeys = Object.keys(translation).filter((key) => !TRANSLATION_KEYS.includes(key));
+    if (unknownKeys.length > 0) errors.push(`unknown ${path} field(s): ${unknownKeys.join(', ')}`);
+
+    if (translation.title !== undefined && !isNonEmptyString(translation.title)) {
+      errors.push(`${path}.title must be a non-empty string`);
+    }
+    if (translation.message !== undefined && !isNonEmptyString(translation.message)) {
+      errors.push(`${path}.message must be a non-empty string`);
+    }
+    if (translation.sections !== undefined) {
+      const base = Array.isArray(baseSections) ? baseSections : [];
+      if (!Array.isArray(translation.sections) || translation.sections.length !== base.length) {
+        errors.push(`${path}.sections must have one entry per metadata section (${base.length})`);
+        continue;
+      }
+      translation.sections.forEach((section: any, i: number) => {
+        validateSection(section, `${path}.sections[${i}]`, errors);
+        if (section?.type !== base[i]?.type) {
+          errors.push(`${path}.sections[${i}].type must be ${base[i]?.type} like metadata.sections[${i}]`);
+        }
+      });
+    }
+  }
+}
+
+function validateSection(section: any, path: string, errors: string[]): void {
+  if (!section || typeof section !== 'object') {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+
+  switch (section.type) {
+    case 'text':
+      if (!isNonEmptyString(section.content)) errors.push(`${path}.content must be a non-empty string`);
+      break;
+    case 'list':
+      if (!Array.isArray(section.content) || section.content.length === 0 ||
+          !section.content.every(isNonEmptyString)) {
+        errors.push(`${path}.content must be a non-empty array of strings`);
+      }
+      break;
+    case 'cta':
+      if (!isNonEmptyString(section.content)) errors.push(`${path}.content must be a non-empty string`);
+      if (!isNonEmptyString(section.buttonText)) errors.push(`${path}.buttonText must be a non-empty string`);
+      if (typeof section.buttonLink !== 'string' || !LINK_PATTERN.test(section.buttonLink)) {
+        errors.push(`${path}.buttonLink must be an https:// or tracktivity:// link`);
+      }
+      break;
+    default:
+      errors.push(`${path}.type must be one of: text, list, cta`);
+  }
+}
+
+// Returns the input typed as a Notification, or throws with every problem found
+export function validateNotification(input: any): Notification {
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new NotificationValidationError(['notification must be an object']);
+  }
+
+  const unknownKeys = Object.keys(input).filter((key) => !NOTIFICATION_KEYS.includes(key));
+  if (unknownKeys.length > 0) errors.push(`unknown field(s): ${unknownKeys.join(', ')}`);
+
+  if (typeof input.id !== 'string' || !ID_PATTERN.test(input.id)) {
+    errors.push('id must be lowercase letters, digits and dashes (max 64)');
+  }
+  if (!isNonEmptyString(input.title)) errors.push('title must be a non-empty string');
+  if (!isNonEmptyString(input.message)) errors.push('message must be a non-empty string');
+  if (typeof input.date !== 'string' || !DATE_PATTERN.test(input.date) || isNaN(Date.parse(input.date))) {
+    errors.push('date must be YYYY-MM-DD');
+  }
+  if (!NOTIFICATION_TYPES.includes(input.type)) {
+    errors.push(`type must be one of: ${NOTIFICATION_TYPES.join(', ')}`);
+  }
+  if (typeof input.isRead !== 'boolean') errors.push('isRead must be a boolean');
+  if (typeof input.isSticky !== 'boolean') errors.push('isSticky must be a boolean');
+  if (input.expiresAt !== null && !isISOTimestamp(input.expiresAt)) {
+    errors.push('expiresAt must be an ISO timestamp or null');
+  }
+  if (input.publishAt !== undefined) {
+    if (!isISOTimestamp(input.publishAt)) {
+      errors.push('publishAt must be an ISO timestamp');
+    } else if (isISOTimestamp(input.expiresAt) && Date.parse(input.expiresAt) <= Date.parse(input.publishAt)) {
+      errors.push('expiresAt must be after publishAt');
+    }
+  }
+
+  if (input.audience !== undefined) {
+    validateAudience(input.audience, errors);
+  }
+
+  if (input.translations !== undefined) {
+    validateTranslations(input.translations, input.metadata?.sections, errors);
+  }
+
+  if (input.metadata !== undefined) {
+    const metadata = input.metadata;
+    if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+      errors.push('metadata must be an object');
+    } else {
+      if (metadata.emoji !== undefined && !isNonEmptyString(metadata.emoji)) {
+        errors.push('metadata.emoji must be a non-empty string');
+      }
+      if (metadata.sections !== undefined) {
+        if (!Array.isArray(metadata.sections)) {
+          errors.push('metadata.sections must be an array');
+        } else {
+          metadata.sections.forEach((section: any, i: number) =>
+            validateSection(section, `metadata.sections[${i}]`, errors));
+        }
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new NotificationValidationError(errors);
+  }
+  return input as Notification;
+}
+
+// ============================================================================
+// SCHEDULING
+// ============================================================================
+
+export function isScheduled(notification: Notification, now: Date = new Date()): boolean {
+  return notification.publishAt !== undefined && Date.parse(notification.publishAt) > now.getTime();
+}
+
+export function isExpired(notification: Notification, now: Date = new Date()): boolean {
+  return notification.expiresAt !== null && Date.parse(notification.expiresAt) <= now.getTime();
+}
+
+// Which file holds the notification: queued, targeted, or the static feed
+export function notificationFile(notification: Notification, now: Date = new Date()): string {
+  if (isScheduled(notification, now)) {
+    return SCHEDULED_NOTIFICATIONS_FILE;
+  }
+  return notification.audience ? TARGETED_NOTIFICATIONS_FILE : NOTIFICATIONS_FILE;
+}
+
+// The live entry is dated on its publish day and drops publishAt, so it looks hand-authored
+function toLive(notification: Notification): Notification {
+  const { publishAt, ...live } = notification;
+  return { ...live, date: publishAt!.slice(0, 10) };
+}
+
+// Moves due scheduled and newly generated notifications into the live feeds and archives
+// expired ones. Generated ids already live, scheduled or archived are skipped, so a rule
+// fires once per event. Targeted entries left in notifications.json by older versions are
+// moved out. Only files that may have changed are returned. Never throws.
+export async function updateLiveNotifications(
+  store: FeedStore,
+  generated: GeneratedNotifications,
+  writeLog: Logger,
+  now: Date = new Date()
+): Promise<LiveNotificationsResult> {
+  let live: Notification[];
+  let targeted: Notification[];
+  let scheduled: Notification[];
+  try {
+    live = await readOptional<Notification[]>(store, NOTIFICATIONS_FILE, []);
+    targeted = await readOptional<Notification[]>(store, TARGETED_NOTIFICATIONS_FILE, []);
+    scheduled = await readOptional<Notification[]>(store, SCHEDULED_NOTIFICATIONS_FILE, []);
+  } catch (error) {
+    writeLog(`✗ Notification update skipped: ${error}`);
+    return { files: [], live: null, published: [], generated: [], archived: [] };
+  }
+
+  const due = scheduled
+    .filter((n) => !isScheduled(n, now))
+    .sort((a, b) => Date.parse(b.publishAt!) - Date.parse(a.publishAt!));
+  const waiting = scheduled.filter((n) => isScheduled(n, now));
+
+  const resolved = (n: Notification) => generated.resolvedPrefixes.some((prefix) => n.id.startsWith(prefix));
+  const expiring = [...due.map(toLive), ...live, ...targeted].some((n) => isExpired(n, now) || resolved(n));
+
+  let archive: ArchivedNotification[] | null = null;
+  if (expiring || generated.notifications.length > 0) {
+    try {
+      archive = await readOptional<ArchivedNotification[]>(store, NOTIFICATIONS_ARCHIVE_FILE, []);
+    } catch (error) {
+      // Keep expired entries live and hold back generated ones rather than losing or repeating them
+      writeLog(`✗ Could not read ${NOTIFICATIONS_ARCHIVE_FILE}, expiry and generated notifications skipped: ${error}`);
+    }
+  }
+
+  const knownIds = new Set([...live, ...targeted, ...scheduled, ...(archive || [])].map((n) => n.id));
+  const fresh = archive
+    ? generated.notifications.filter((n) => !knownIds.has(n.id))
+    : [];
+
+  const candidates = [...fresh, ...due.map(toLive), ...live, ...targeted];
+  const expired = archive
+    ? candidates.filter((n) => isExpired(n, now) || resolved(n))
+    : [];
+  const remaining = candidates.filter((n) => !expired.includes(n));
+  const nextLive = remaining.filter((n) => !n.audience);
+  const nextTargeted = remaining.filter((n) => n.audience);
+
+  const files: FileUpdate[] = [];
+  if (due.length > 0) {
+    files.push({ path: SCHEDULED_NOTIFICATIONS_FILE, content: waiting });
+  }
+  if (due.length > 0 || fresh.length > 0 || expired.length > 0 || live.some((n) => n.audience)) {
+    files.push({ path: NOTIFICATIONS_FILE, content: nextLive });
+    files.push({ path: TARGETED_NOTIFICATIONS_FILE, content: nextTargeted });
+  }
+  if (expired.length > 0) {
+    const archivedAt = now.toISOString();
+    files.push({
+      path: NOTIFICATIONS_ARCHIVE_FILE,
+      content: [...expired.map((n) => ({ ...n, archivedAt })), ...archive!],
+    });
+  }
+
+  for (const n of due) writeLog(`✓ Published scheduled notification ${n.id}`);
+  for (const n of fresh) writeLog(`✓ Generated notification ${n.id}`);
+  for (const n of expired) writeLog(`✓ Archived expired notification ${n.id}`);
+
+  return {
+    files,
+    live: nextLive,
+    published: due.map((n) => n.id),
+    generated: fresh.map((n) => n.id),
+    archived: expired.map((n) => n.id),
+  };
+}
+
+// ============================================================================
+// TARGETING
+// ============================================================================
+
+// Numeric comparison of dotted versions; missing parts count as 0 ("1.1" == "1.1.0")
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+function matchesLocale(wanted: string, locale: string): boolean {
+  const w = wanted.toLowerCase();
+  const l = locale.toLowerCase();
+  return l === w || l.startsWith(`${w}-`);
+}
+
+// A criterion the client did not report counts as a mismatch
+export function matchesAudience(notification: Notification, client: NotificationClient): boolean {
+  const audience = notification.audience;
+  if (!audience) {
+    return true;
+  }
+
+  const { appVersion, platform, locale, wallet } = client;
+  if (audience.minAppVersion || audience.maxAppVersion) {
+    if (!appVersion || !VERSION_PATTERN.test(appVersion)) return false;
+    if (audience.minAppVersion && compareVersions(appVersion, audience.minAppVersion) < 0) return false;
+    if (audience.maxAppVersion && compareVersions(appVersion, audience.maxAppVersion) > 0) return false;
+  }
+  if (audience.platforms && !audience.platforms.includes(platform as NotificationPlatform)) {
+    return false;
+  }
+  if (audience.locales && !(locale && audience.locales.some((wanted) => matchesLocale(wanted, locale)))) {
+    return false;
+  }
+  if (audience.wallets && !(wallet && audience.wallets.includes(wallet))) {
+    return false;
+  }
+  return true;
+}
+
+// The client's feed: unexpired entries whose audience matches. The audience block is
+// dropped so one wallet never sees the rest of an allow-list.
+export function selectForClient(
+  notifications: Notification[],
+  client: NotificationClient,
+  now: Date = new Date()
+): Notification[] {
+  return notifications
+    .filter((n) => !isExpired(n, now) && matchesAudience(n, client))
+    .map(({ audience, ...notification }) => notification);
+}
+
+// ============================================================================
+// LOCALIZATION
+// ============================================================================
+
+// "ko-KR,ko;q=0.9,en;q=0.8" -> ["ko-KR", "ko", "en"], best first
+export function parseAcceptLanguage(header: string | undefined): string[] {
+  if (!header) {
+    return [];
+  }
+
+  return header
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.map((p) => p.trim()).find((p) => p.startsWith('q='));
+      return { tag: tag.trim(), quality: q ? Number(q.slice(2)) : 1, index };
+    })
+    .filter(({ tag, quality }) => LOCALE_PATTERN.test(tag) && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ tag }) => tag);
+}
+
+// ["zh-Hant-TW", "en"] -> ["zh-hant-tw", "zh-hant", "zh", "en"]
+export function localeChain(preferred: string[]): string[] {
+  const chain: string[] = [];
+  for (const tag of preferred) {
+    const parts = tag.toLowerCase().split('-');
+    for (let length = parts.length; length > 0; length--) {
+      const candidate = parts.slice(0, length).join('-');
+      if (!chain.includes(candidate)) chain.push(candidate);
+    }
+  }
+  return chain;
+}
+
+// Resolves every translatable field separately, falling back to the base (English) text
+export function localizeNotification(notification: Notification, preferred: string[]): Notification {
+  const { translations, ...base } = notification;
+  if (!translations) {
+    return base;
+  }
+
+  const byLocale = new Map(Object.entries(translations).map(([locale, t]) => [locale.toLowerCase(), t]));
+  const variants = localeChain(preferred)
+    .map((locale) => byLocale.get(locale))
+    .filter((t): t is NotificationTranslation => t !== undefined);
+
+  const title = variants.find((t) => t.title)?.title;
+  const message = variants.find((t) => t.message)?.message;
+  const sections = variants.find((t) => t.sections)?.sections;
+
+  return {
+    ...base,
+    title: title || base.title,
+    message: message || base.message,
+    ...(base.metadata && sections ? { metadata: { ...base.metadata, sections } } : {}),
+  };
+}
@@ -0,0 +1,227 @@
+import { FeedError, FetchLike, fetchJSON, fetchWithTimeout, isPermanentFailure, toFeedError, withRetry } from './http';
+import { Delisting, NewListing, RETENTION_DAYS } from './listings';
+import { Logger } from './logger';
+import { FeedResult, FeedStatus } from './status';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AlertType = 'new_listing' | 'delisting' | 'feed_failure' | 'feed_recovered';
+
+export type AlertEvent =
+  | { type: 'new_listing'; listing: NewListing }
+  | { type: 'delisting'; delisting: Delisting }
+  | { type: 'feed_failure'; feed: string; error: FeedError; lastSuccess: string | null }
+  | { type: 'feed_recovered'; feed: string; failingSince: string | null };
+
+// Dedup record: the same key is never sent to the same channel twice within the retention window
+export interface SentAlert {
+  key: string;
+  channel: string;
+  sentAt: string;
+}
+
+interface AlertChannel {
+  name: string;                                 // e.g. telegram, discord-ops
+  types: AlertType[];
+  send(text: string): Promise<void>;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN || '';
+const TELEGRAM_CHAT_ID = process.env.TELEGRAM_CHAT_ID || '';
+const TELEGRAM_OPS_CHAT_ID = process.env.TELEGRAM_OPS_CHAT_ID || '';
+const DISCORD_WEBHOOK_URL = process.env.DISCORD_WEBHOOK_URL || '';
+const DISCORD_OPS_WEBHOOK_URL = process.env.DISCORD_OPS_WEBHOOK_URL || '';
+
+// Community channels get market events, ops channels get feed health events
+const COMMUNITY_ALERTS: AlertType[] = ['new_listing', 'delisting'];
+const OPS_ALERTS: AlertType[] = ['feed_failure', 'feed_recovered'];
+
+// Keeps a burst (e.g. a rebaselined exchange) from tripping Telegram/Discord rate limits
+const MAX_ALERTS_PER_CHANNEL = 20;
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+const TEMPLATES: { [T in AlertType]: (event: Extract<AlertEvent, { type: T }>) => string } = {
+  new_listing: ({ listing }) => {
+    const pair = `${listing.baseAsset}/${listing.quoteAsset}`;
+    const context = listing.isFirstListing
+      ? 'First listing on any tracked exchange'
+      : listing.listedOn && listing.listedOn.length > 0
+        ? `Already on ${listing.listedOn.join(', ')}`
+        : null;
+    return [`🚀 New listing on ${listing.exchange}: ${pair} (${listing.marketType})`, context]
+      .filter(Boolean)
+      .join('\n');
+  },
+  delisting: ({ delisting }) =>
+    `⚠️ ${delisting.exchange} delisted ${delisting.baseAsset}/${delisting.quoteAsset} (${delisting.marketType})`,
+  feed_failure: ({ feed, error, lastSuccess }) =>
+    `🔴 Feed ${feed} failed: [${error.category}] ${error.message}\n` +
+    `Last success: ${lastSuccess || 'never'}`,
+  feed_recovered: ({ feed, failingSince }) =>
+    `🟢 Feed ${feed} recovered` + (failingSince ? `, failing since ${failingSince}` : ''),
+};
+
+export function renderAlert(event: AlertEvent): string {
+  return (TEMPLATES[event.type] as (event: AlertEvent) => string)(event);
+}
+
+// ============================================================================
+// EVENTS
+// ============================================================================
+
+function alertKey(event: AlertEvent): string {
+  switch (event.type) {
+    case 'new_listing':
+      return `new_listing:${event.listing.exchange}:${event.listing.marketType}:${event.listing.symbol}`;
+    case 'delisting':
+      return `delisting:${event.delisting.exchange}:${event.delisting.marketType}:${event.delisting.symbol}`;
+    case 'feed_failure':
+      // One alert per outage, identified by the success it followed
+      return `feed_failure:${event.feed}:${event.lastSuccess || 'never'}`;
+    case 'feed_recovered':
+      return `feed_recovered:${event.feed}:${new Date().toISOString()}`;
+  }
+}
+
+// Feed failure and recovery are transitions against the previous run, not steady states
+export function feedTransitions(
+  previous: Record<string, FeedStatus>,
+  results: FeedResult[]
+): AlertEvent[] {
+  const events: AlertEvent[] = [];
+
+  for (const result of results) {
+    const old = previous[result.feed];
+    if (!result.success && old?.status !== 'failed') {
+      events.push({
+        type: 'feed_failure',
+        feed: result.feed,
+        error: result.error || { category: 'unknown', message: 'Unknown error' },
+        lastSuccess: old?.lastSuccess || null,
+      });
+    } else if (result.success && old?.status === 'failed') {
+      events.push({ type: 'feed_recovered', feed: result.feed, failingSince: old.failingSince || null });
+    }
+  }
+
+  return events;
+}
+
+// ============================================================================
+// CHANNELS
+// ============================================================================
+
+function telegramChannel(name: string, chatId: string, types: AlertType[], fetchImpl?: FetchLike): AlertChannel {
+  return {
+    name,
+    types,
+    async send(text: string) {
+      await fetchJSON(`https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}/sendMessage`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chat_id: chatId, text, disable_web_page_preview: true }),
+      }, fetchImpl);
+    },
+  };
+}
+
+function discordChannel(name: string, webhookUrl: string, types: AlertType[], fetchImpl?: FetchLike): AlertChannel {
+  return {
+    name,
+    types,
+    async send(text: string) {
+      // Discord answers 204 No Content on success
+      const response = await fetchWithTimeout(webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: text }),
+      }, undefined, fetchImpl);
+      if (!response.ok) {
+        throw new Error(`Discord webhook returned HTTP ${response.status}`);
+      }
+    },
+  };
+}
+
+function configuredChannels(fetchImpl?: FetchLike): AlertChannel[] {
+  const channels: AlertChannel[] = [];
+  if (TELEGRAM_BOT_TOKEN && TELEGRAM_CHAT_ID) {
+    channels.push(telegramChannel('telegram', TELEGRAM_CHAT_ID, COMMUNITY_ALERTS, fetchImpl));
+  }
+  if (TELEGRAM_BOT_TOKEN && TELEGRAM_OPS_CHAT_ID) {
+    channels.push(telegramChannel('telegram-ops', TELEGRAM_OPS_CHAT_ID, OPS_ALERTS, fetchImpl));
+  }
+  if (DISCORD_WEBHOOK_URL) {
+    channels.push(discordChannel('discord', DISCORD_WEBHOOK_URL, COMMUNITY_ALERTS, fetchImpl));
+  }
+  if (DISCORD_OPS_WEBHOOK_URL) {
+    channels.push(discordChannel('discord-ops', DISCORD_OPS_WEBHOOK_URL, OPS_ALERTS, fetchImpl));
+  }
+  return channels;
+}
+
+// ============================================================================
+// DISPATCH
+// ============================================================================
+
+// Bot tokens and webhook URLs are credentials and show up in network error messages
+function redactSecrets(message: string): string {
+  return [TELEGRAM_BOT_TOKEN, DISCORD_WEBHOOK_URL, DISCORD_OPS_WEBHOOK_URL]
+    .filter((secret) => secret.length > 0)
+    .reduce((text, secret) => text.split(secret).join('***'), message);
+}
+
+// Sends each event to every channel subscribed to its type unless already sent there.
+// Returns the updated dedup log (new entries first, expired ones dropped); never throws.
+export async function sendAlerts(
+  events: AlertEvent[],
+  sent: SentAlert[],
+  writeLog: Logger,
+  fetchImpl?: FetchLike
+): Promise<SentAlert[]> {
+  const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  const log = sent.filter((entry) => new Date(entry.sentAt).getTime() >= cutoff);
+  const channels = configuredChannels(fetchImpl);
+
+  if (events.length === 0 || channels.length === 0) {
+    return log;
+  }
+
+  const alreadySent = new Set(log.map((entry) => `${entry.channel}|${entry.key}`));
+  const newEntries: SentAlert[] = [];
+
+  for (const channel of channels) {
+    const pending = events
+      .filter((event) => channel.types.includes(event.type))
+      .filter((event) => !alreadySent.has(`${channel.name}|${alertKey(event)}`));
+
+    if (pending.length > MAX_ALERTS_PER_CHANNEL) {
+      writeLog(`⚠ ${channel.name}: ${pending.length} alerts pending, sending the first ${MAX_ALERTS_PER_CHANNEL}`);
+    }
+
+    for (const event of pending.slice(0, MAX_ALERTS_PER_CHANNEL)) {
+      try {
+        await withRetry(() => channel.send(renderAlert(event)), undefined, (error) => !isPermanentFailure(error));
+        newEntries.push({ key: alertKey(event), channel: channel.name, sentAt: new Date().toISOString() });
+      } catch (error) {
+        writeLog(`✗ ${channel.name} alert failed (${event.type}): ${redactSecrets(toFeedError(error).message)}`);
+      }
+    }
+
+    const delivered = newEntries.filter((entry) => entry.channel === channel.name).length;
+    if (delivered > 0) {
+      writeLog(`✓ Sent ${delivered} alert(s) to ${channel.name}`);
+    }
+  }
+
+  return [...newEntries, ...log];
+}
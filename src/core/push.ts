@@ -0,0 +1,418 @@
+import { createCipheriv, createDecipheriv, createHash, createSign, randomBytes } from 'crypto';
+import { fetchJSON, fetchWithTimeout, mapWithConcurrency, toFeedError } from './http';
+import { NewListing } from './listings';
+import { Logger } from './logger';
+import { Notification } from './notifications';
+import { FeedStore, readOptional } from './store';
+import { WatchlistAlert } from './watchlists';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PushProviderName = 'expo' | 'fcm';
+export type PushTopic = 'notifications' | 'listings' | 'watchlist';
+
+export interface PushDevice {
+  provider: PushProviderName;
+  token: string;                                // encrypted with PUSH_TOKEN_SECRET, never stored in clear
+  topics: PushTopic[];
+  watchlistKey?: string;                        // links the device to its watchlist alerts
+  registeredAt: string;
+}
+
+// Keyed by pushDeviceKey(token)
+export interface PushDevicesData {
+  devices: Record<string, PushDevice>;
+}
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  data?: Record<string, string>;
+}
+
+export interface PushResult {
+  token: string;
+  success: boolean;
+  unregistered?: boolean;                       // provider says the token is gone; the device is dropped
+  error?: string;
+}
+
+export interface PushProvider {
+  send(tokens: string[], message: PushMessage): Promise<PushResult[]>;
+}
+
+export type PushProviders = Record<PushProviderName, PushProvider>;
+
+export interface StubPushProvider extends PushProvider {
+  sent: { token: string; message: PushMessage }[];
+}
+
+export interface PushEvents {
+  notifications: Notification[] | null;         // live feed after publishing, null when it could not be read
+  newListings: NewListing[];
+  watchlistMatches: Record<string, WatchlistAlert[]>;
+}
+
+export interface PushDispatchResult {
+  unregistered: string[];                       // device keys the provider reported as gone
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const PUSH_DEVICES_FILE = 'push-devices.json';
+export const EMPTY_PUSH_DEVICES: PushDevicesData = { devices: {} };
+export const ALL_PUSH_TOPICS: PushTopic[] = ['notifications', 'listings', 'watchlist'];
+export const DEFAULT_PUSH_TOPICS: PushTopic[] = ['notifications', 'watchlist'];
+
+const PUSH_TOKEN_SECRET = process.env.PUSH_TOKEN_SECRET || '';
+const EXPO_ACCESS_TOKEN = process.env.EXPO_ACCESS_TOKEN || '';
+const FCM_SERVICE_ACCOUNT = process.env.FCM_SERVICE_ACCOUNT || '';
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+const EXPO_BATCH_SIZE = 100;
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const FCM_SCOPE = 'https://www.googleapis.com/auth/firebase.messaging';
+const FCM_CONCURRENCY = 10;
+
+// Above this, new listings go out as one digest push instead of one push each
+const MAX_LISTING_PUSHES = 3;
+const MAX_NOTIFICATION_PUSHES = 3;
+const MAX_WATCHLIST_PUSHES_PER_DEVICE = 5;
+
+const EXPO_TOKEN_PATTERN = /^Expo(nent)?PushToken\[[A-Za-z0-9_-]+\]$/;
+const FCM_TOKEN_PATTERN = /^[A-Za-z0-9_:-]{100,4096}$/;
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+export function isValidPushToken(provider: PushProviderName, token: string): boolean {
+  return provider === 'expo' ? EXPO_TOKEN_PATTERN.test(token) : FCM_TOKEN_PATTERN.test(token);
+}
+
+export function pushDeviceKey(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function encryptionKey(): Buffer {
+  if (!PUSH_TOKEN_SECRET) {
+    throw new Error('PUSH_TOKEN_SECRET environment variable not set');
+  }
+  return createHash('sha256').update(PUSH_TOKEN_SECRET).digest();
+}
+
+// AES-256-GCM, stored as v1:<iv>:<tag>:<ciphertext> in base64
+export function encryptPushToken(token: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(token, 'utf-8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return `v1:${iv.toString('base64')}:${tag.toString('base64')}:${ciphertext.toString('base64')}`;
+}
+
+export function decryptPushToken(stored: string): string {
+  const [version, iv, tag, ciphertext] = stored.split(':');
+  if (version !== 'v1') {
+    throw new Error(`Unsupported push token format: ${version}`);
+  }
+  const decipher = createDecipheriv('aes-256-gcm', encryptionKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf-8');
+}
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+function createExpoProvider(): PushProvider {
+  return {
+    async send(tokens, message) {
+      const results: PushResult[] = [];
+
+      for (let i = 0; i < tokens.length; i += EXPO_BATCH_SIZE) {
+        const batch = tokens.slice(i, i + EXPO_BATCH_SIZE);
+        try {
+          const response = await fetchJSON(EXPO_PUSH_URL, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              ...(EXPO_ACCESS_TOKEN ? { 'Authorization': `Bearer ${EXPO_ACCESS_TOKEN}` } : {}),
+            },
+            body: JSON.stringify(batch.map((token) => ({ to: token, sound: 'default', ...message }))),
+          });
+
+          // One ticket per message, in request order
+          batch.forEach((token, index) => {
+            const ticket = response.data?.[index];
+            results.push(ticket?.status === 'ok'
+              ? { token, success: true }
+              : {
+                token,
+                success: false,
+                unregistered: ticket?.details?.error === 'DeviceNotRegistered',
+                error: ticket?.message || 'Missing push ticket',
+              });
+          });
+        } catch (error) {
+          const reason = toFeedError(error).message;
+          results.push(...batch.map((token) => ({ token, success: false, error: reason })));
+        }
+      }
+
+      return results;
+    },
+  };
+}
+
+function base64url(value: string): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+// FCM HTTP v1 authenticates with a short-lived OAuth token signed by the service account
+async function fcmAccessToken(account: any): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+  const claims = base64url(JSON.stringify({
+    iss: account.client_email,
+    scope: FCM_SCOPE,
+    aud: GOOGLE_TOKEN_URL,
+    iat: now,
+    exp: now + 3600,
+  }));
+  const signature = createSign('RSA-SHA256').update(`${header}.${claims}`).sign(account.private_key, 'base64url');
+
+  const data = await fetchJSON(GOOGLE_TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion: `${header}.${claims}.${signature}`,
+    }).toString(),
+  });
+  return data.access_token;
+}
+
+function createFcmProvider(): PushProvider {
+  return {
+    async send(tokens, message) {
+      if (!FCM_SERVICE_ACCOUNT) {
+        return tokens.map((token) => ({ token, success: false, error: 'FCM_SERVICE_ACCOUNT not set' }));
+      }
+
+      let account: any;
+      let accessToken: string;
+      try {
+        account = JSON.parse(FCM_SERVICE_ACCOUNT);
+        accessToken = await fcmAccessToken(account);
+      } catch (error) {
+        const reason = `FCM auth failed: ${toFeedError(error).message}`;
+        return tokens.map((token) => ({ token, success: false, error: reason }));
+      }
+
+      const url = `https://fcm.googleapis.com/v1/projects/${account.project_id}/messages:send`;
+      return mapWithConcurrency(tokens, FCM_CONCURRENCY, async (token): Promise<PushResult> => {
+        try {
+          const response = await fetchWithTimeout(url, {
+            method: 'POST',
+            headers: {
+              'Authorization': `Bearer ${accessToken}`,
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              message: {
+                token,
+                notification: { title: message.title, body: message.body },
+                data: message.data,
+              },
+            }),
+          });
+          if (response.ok) {
+            return { token, success: true };
+          }
+          const body: any = await response.json().catch(() => ({}));
+          const unregistered = response.status === 404 ||
+            (body.error?.details || []).some((d: any) => d.errorCode === 'UNREGISTERED');
+          return { token, success: false, unregistered, error: `HTTP ${response.status}` };
+        } catch (error) {
+          return { token, success: false, error: toFeedError(error).message };
+        }
+      });
+    },
+  };
+}
+
+// Records instead of sending, for offline runs and tests
+export function createStubProvider(writeLog?: Logger): StubPushProvider {
+  const sent: { token: string; message: PushMessage }[] = [];
+  return {
+    sent,
+    async send(tokens, message) {
+      for (const token of tokens) {
+        sent.push({ token, message });
+      }
+      writeLog?.(`[stub push] ${message.title} → ${tokens.length} device(s)`);
+      return tokens.map((token) => ({ token, success: true }));
+    },
+  };
+}
+
+// PUSH_PROVIDER=stub routes every device to the stub provider
+export function defaultPushProviders(writeLog: Logger): PushProviders {
+  if (process.env.PUSH_PROVIDER === 'stub') {
+    const stub = createStubProvider(writeLog);
+    return { expo: stub, fcm: stub };
+  }
+  return { expo: createExpoProvider(), fcm: createFcmProvider() };
+}
+
+// ============================================================================
+// MESSAGES
+// ============================================================================
+
+function notificationMessages(notifications: Notification[]): PushMessage[] {
+  if (notifications.length > MAX_NOTIFICATION_PUSHES) {
+    const titles = notifications.slice(0, MAX_NOTIFICATION_PUSHES).map((n) => n.title);
+    return [{
+      title: `${notifications.length} new notifications`,
+      body: `${titles.join(', ')} and ${notifications.length - MAX_NOTIFICATION_PUSHES} more`,
+      data: { kind: 'notifications' },
+    }];
+  }
+
+  return notifications.map((notification) => ({
+    title: notification.title,
+    body: notification.message,
+    data: { kind: 'notification', id: notification.id, type: notification.type },
+  }));
+}
+
+function listingMessages(listings: NewListing[]): PushMessage[] {
+  if (listings.length > MAX_LISTING_PUSHES) {
+    const pairs = listings.slice(0, MAX_LISTING_PUSHES).map((l) => `${l.baseAsset} on ${l.exchange}`);
+    return [{
+      title: `${listings.length} new listings`,
+      body: `${pairs.join(', ')} and ${listings.length - MAX_LISTING_PUSHES} more`,
+      data: { kind: 'listings' },
+    }];
+  }
+
+  return listings.map((listing) => ({
+    title: `New listing on ${listing.exchange}`,
+    body: `${listing.baseAsset}/${listing.quoteAsset} (${listing.marketType})`,
+    data: { kind: 'listing', exchange: listing.exchange, symbol: listing.symbol },
+  }));
+}
+
+function watchlistMessage(alert: WatchlistAlert): PushMessage {
+  return {
+    title: `${alert.asset} listed on ${alert.exchange}`,
+    body: `${alert.symbol} (${alert.marketType})`,
+    data: { kind: 'watchlist', id: alert.id },
+  };
+}
+
+// ============================================================================
+// DISPATCH
+// ============================================================================
+
+// Pushes new notifications.json entries, new listings and watchlist matches to registered
+// devices. `pushedIds` is undefined on the first run, which only records the current ids
+// so existing notifications are not pushed retroactively. Never throws.
+export async function dispatchPush(
+  store: FeedStore,
+  events: PushEvents,
+  pushedIds: string[] | undefined,
+  providers: PushProviders,
+  writeLog: Logger
+): Promise<PushDispatchResult> {
+  let devicesData: PushDevicesData;
+  try {
+    devicesData = await readOptional(store, PUSH_DEVICES_FILE, EMPTY_PUSH_DEVICES);
+  } catch (error) {
+    writeLog(`✗ Push dispatch skipped: ${error}`);
+    return { unregistered: [] };
+  }
+
+  // Devices don't report version, platform or locale, so targeted entries are never pushed
+  const newNotifications = pushedIds && events.notifications
+    ? events.notifications.filter((n) => !pushedIds.includes(n.id) && !n.audience)
+    : [];
+
+  // Collect the messages each device should get
+  const outbox = new Map<string, PushMessage[]>();
+  for (const [key, device] of Object.entries(devicesData.devices)) {
+    const messages: PushMessage[] = [];
+    if (device.topics.includes('notifications')) {
+      messages.push(...notificationMessages(newNotifications));
+    }
+    if (device.topics.includes('listings')) {
+      messages.push(...listingMessages(events.newListings));
+    }
+    if (device.topics.includes('watchlist') && device.watchlistKey) {
+      const matches = events.watchlistMatches[device.watchlistKey] || [];
+      messages.push(...matches.slice(0, MAX_WATCHLIST_PUSHES_PER_DEVICE).map(watchlistMessage));
+    }
+    if (messages.length > 0) {
+      outbox.set(key, messages);
+    }
+  }
+
+  if (outbox.size === 0) {
+    return { unregistered: [] };
+  }
+
+  // Group identical messages so each provider call fans one message out to many tokens
+  const groups = new Map<string, { message: PushMessage; provider: PushProviderName; keys: string[] }>();
+  for (const [key, messages] of outbox) {
+    const provider = devicesData.devices[key].provider;
+    for (const message of messages) {
+      const groupKey = `${provider}|${JSON.stringify(message)}`;
+      const group = groups.get(groupKey) || { message, provider, keys: [] };
+      group.keys.push(key);
+      groups.set(groupKey, group);
+    }
+  }
+
+  const unregistered = new Set<string>();
+  let delivered = 0;
+  let failed = 0;
+
+  for (const { message, provider, keys } of groups.values()) {
+    const tokenToKey = new Map<string, string>();
+    for (const key of keys) {
+      try {
+        tokenToKey.set(decryptPushToken(devicesData.devices[key].token), key);
+      } catch (error) {
+        writeLog(`⚠ Cannot decrypt push token ${key.slice(0, 8)}: ${error}`);
+      }
+    }
+
+    const results = await providers[provider].send([...tokenToKey.keys()], message);
+    for (const result of results) {
+      if (result.success) {
+        delivered++;
+        continue;
+      }
+      failed++;
+      if (result.unregistered) {
+        unregistered.add(tokenToKey.get(result.token)!);
+      }
+    }
+  }
+
+  writeLog(`✓ Push: ${delivered} delivered, ${failed} failed, ${unregistered.size} unregistered device(s)`);
+  return { unregistered: [...unregistered] };
+}
+
+export function removePushDevices(data: PushDevicesData, keys: string[]): PushDevicesData {
+  return {
+    devices: Object.fromEntries(Object.entries(data.devices).filter(([key]) => !keys.includes(key))),
+  };
+}
@@ -0,0 +1,138 @@
+import { FeedError } from './http';
+import { QuarantinedSnapshot } from './listings';
+import { SentAlert } from './notifiers';
+import { WebhookDelivery } from './webhooks';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RunStatus = 'success' | 'partial_success' | 'failed' | 'never_run';
+
+export interface FeedResult {
+  feed: string;                                 // e.g. binance-spot, world-currencies, skr-stats
+  success: boolean;
+  error?: FeedError;
+  responseTimeMs: number;
+  itemCount: number | null;
+}
+
+export interface FeedStatus {
+  status: 'success' | 'failed';
+  lastRun: string;
+  lastSuccess: string | null;
+  failingSince: string | null;                  // first run of the current outage; fixed so status.json stays stable
+  consecutiveFailures: number;                  // volatile: only runs whose status.json was written are counted
+  lastError: FeedError | null;
+  responseTimeMs: number;
+  itemCount: number | null;
+}
+
+export interface RunRecord {
+  startedAt: string;
+  status: RunStatus;
+  durationMs: number;
+  feeds: string[];
+  failedFeeds: string[];
+}
+
+export interface StatusData {
+  lastRun: string | null;
+  lastSuccessfulRun: string | null;
+  status: RunStatus;
+  errors: string[];
+  quarantined?: QuarantinedSnapshot[];          // suspicious snapshots held back from publishing
+  feeds?: Record<string, FeedStatus>;
+  history?: RunRecord[];                        // most recent runs, newest first
+  webhooks?: WebhookDelivery[];                 // most recent webhook deliveries, newest first
+  alerts?: SentAlert[];                         // Telegram/Discord dedup log within the retention window
+  pushedNotificationIds?: string[];             // notifications.json ids already pushed to devices
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const HISTORY_SIZE = 50;
+const WEBHOOK_LOG_SIZE = 50;
+
+// ============================================================================
+// STATUS TRACKING
+// ============================================================================
+
+function overallStatus(failedCount: number, feedCount: number, quarantined: boolean): RunStatus {
+  if (failedCount === 0 && !quarantined) {
+    return 'success';
+  }
+  return failedCount < feedCount ? 'partial_success' : 'failed';
+}
+
+export function updateFeedStatus(
+  previous: StatusData,
+  results: FeedResult[],
+  run: {
+    startedAt: string;
+    quarantined?: QuarantinedSnapshot[];
+    pushedNotificationIds?: string[];
+  }
+): StatusData {
+  const feeds: Record<string, FeedStatus> = { ...(previous.feeds || {}) };
+
+  for (const result of results) {
+    const old = feeds[result.feed];
+    feeds[result.feed] = {
+      status: result.success ? 'success' : 'failed',
+      lastRun: run.startedAt,
+      lastSuccess: result.success ? run.startedAt : old?.lastSuccess || null,
+      failingSince: result.success ? null : old?.failingSince || run.startedAt,
+      consecutiveFailures: result.success ? 0 : (old?.consecutiveFailures || 0) + 1,
+      lastError: result.success
+        ? old?.lastError || null
+        : result.error || { category: 'unknown', message: 'Unknown error' },
+      responseTimeMs: result.responseTimeMs,
+      itemCount: result.success ? result.itemCount : old?.itemCount ?? null,
+    };
+  }
+
+  // History describes this run; the top-level status covers every feed, including the
+  // ones a feed-selected run left untouched
+  const failed = results.filter((r) => !r.success);
+  const record: RunRecord = {
+    startedAt: run.startedAt,
+    status: overallStatus(failed.length, results.length, (run.quarantined || []).length > 0),
+    durationMs: Date.now() - new Date(run.startedAt).getTime(),
+    feeds: results.map((r) => r.feed),
+    failedFeeds: failed.map((r) => r.feed),
+  };
+
+  const quarantined = run.quarantined ?? previous.quarantined ?? [];
+  const failedFeeds = Object.entries(feeds).filter(([, feed]) => feed.status === 'failed');
+  const status = overallStatus(failedFeeds.length, Object.keys(feeds).length, quarantined.length > 0);
+
+  return {
+    lastRun: run.startedAt,
+    lastSuccessfulRun: status === 'success' ? run.startedAt : previous.lastSuccessfulRun,
+    status,
+    errors: failedFeeds.map(
+      ([name, feed]) => `${name}: [${feed.lastError?.category || 'unknown'}] ${feed.lastError?.message}`
+    ),
+    quarantined,
+    feeds,
+    history: [record, ...(previous.history || [])].slice(0, HISTORY_SIZE),
+    webhooks: previous.webhooks || [],
+    alerts: previous.alerts || [],
+    pushedNotificationIds: run.pushedNotificationIds ?? previous.pushedNotificationIds,
+  };
+}
+
+// Alerts and webhooks go out after the run's data is committed; their logs follow in a second write
+export function recordDeliveries(
+  status: StatusData,
+  deliveries: { webhooks: WebhookDelivery[]; alerts: SentAlert[] }
+): StatusData {
+  return {
+    ...status,
+    webhooks: [...deliveries.webhooks, ...(status.webhooks || [])].slice(0, WEBHOOK_LOG_SIZE),
+    alerts: deliveries.alerts,
+  };
+}
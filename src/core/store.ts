@@ -0,0 +1,518 @@
+import fetch, { Response } from 'node-fetch';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { delay } from './http';
+import { Logger } from './logger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FileUpdate {
+  path: string;
+  content: any;
+}
+
+// Exclusive hold on the store so overlapping runs never interleave
+export interface FeedLease {
+  holder: string;
+  expiresAt: string;
+  release(): Promise<void>;
+}
+
+// Where feed files are read from and written to; writeBatch lands all files or none
+export interface FeedStore {
+  read<T>(fileName: string): Promise<T>;
+  writeBatch(files: FileUpdate[], message?: string): Promise<void>;   // message is kept where the store has history
+  acquireLease(ttlMs: number): Promise<FeedLease | null>;   // null while another unexpired lease exists
+}
+
+export interface MemoryFeedStore extends FeedStore {
+  dump(): Record<string, any>;
+}
+
+export interface CommitAuthor {
+  name: string;
+  email: string;
+}
+
+export interface GitHubStoreOptions {
+  token: string;
+  repo: string;
+  branch: string;
+  author?: CommitAuthor;                        // defaults to the token's user
+}
+
+export class FileNotFoundError extends Error {
+  constructor(fileName: string) {
+    super(`${fileName} not found`);
+    this.name = 'FileNotFoundError';
+  }
+}
+
+// Files this run read were changed by someone else before its commit landed
+export class WriteConflictError extends Error {
+  paths: string[];
+
+  constructor(paths: string[]) {
+    super(`${paths.join(', ')} changed since they were read`);
+    this.name = 'WriteConflictError';
+    this.paths = paths;
+  }
+}
+
+interface LeaseRecord {
+  holder: string;
+  expiresAt: string;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const COMMIT_ATTEMPTS = Number(process.env.GITHUB_COMMIT_RETRIES) || 3;
+const LEASE_RETRY_DELAY_MS = 1000;
+const LEASE_FILE = '.update.lock';
+
+// ============================================================================
+// READS
+// ============================================================================
+
+// For files that may not exist yet; any other read failure still throws
+export async function readOptional<T>(store: FeedStore, fileName: string, fallback: T): Promise<T> {
+  try {
+    return await store.read<T>(fileName);
+  } catch (error) {
+    if (error instanceof FileNotFoundError) return fallback;
+    throw error;
+  }
+}
+
+// ============================================================================
+// LEASES
+// ============================================================================
+
+export class LeaseHeldError extends Error {
+  constructor(message = 'Another update run holds the lease') {
+    super(message);
+    this.name = 'LeaseHeldError';
+  }
+}
+
+function newLease(ttlMs: number): LeaseRecord {
+  return { holder: randomUUID(), expiresAt: new Date(Date.now() + ttlMs).toISOString() };
+}
+
+function isExpired(lease: LeaseRecord): boolean {
+  return new Date(lease.expiresAt).getTime() <= Date.now();
+}
+
+// Runs fn while holding the store's lease, retrying the acquisition `attempts` times
+export async function withLease<T>(
+  store: FeedStore,
+  options: { ttlMs: number; attempts?: number },
+  writeLog: Logger,
+  fn: (lease: FeedLease) => Promise<T>
+): Promise<T> {
+  const attempts = options.attempts || 1;
+
+  let lease: FeedLease | null = null;
+  for (let attempt = 1; attempt <= attempts && !lease; attempt++) {
+    if (attempt > 1) await delay(LEASE_RETRY_DELAY_MS);
+    lease = await store.acquireLease(options.ttlMs);
+  }
+  if (!lease) {
+    throw new LeaseHeldError();
+  }
+
+  try {
+    return await fn(lease);
+  } finally {
+    try {
+      await lease.release();
+    } catch (error) {
+      writeLog(`⚠ Failed to release lease, it will expire at ${lease.expiresAt}: ${error}`);
+    }
+  }
+}
+
+// Read-modify-write of a single file under the lease, for API routes editing shared files.
+// Someone committing the same file in between (e.g. a hand edit) re-runs the update on their version.
+export async function updateFile<T>(
+  store: FeedStore,
+  fileName: string,
+  fallback: T,
+  options: { ttlMs: number; attempts?: number; message: string },
+  writeLog: Logger,
+  update: (current: T) => T
+): Promise<T> {
+  return withLease(store, options, writeLog, async () => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const updated = update(await readOptional(store, fileName, fallback));
+        await store.writeBatch([{ path: fileName, content: updated }], options.message);
+        return updated;
+      } catch (error) {
+        if (!(error instanceof WriteConflictError) || attempt === COMMIT_ATTEMPTS) throw error;
+        writeLog(`⚠ ${error.message}, re-reading (attempt ${attempt}/${COMMIT_ATTEMPTS})`);
+      }
+    }
+  });
+}
+
+// ============================================================================
+// LOCAL FILESYSTEM
+// ============================================================================
+
+export function createFileStore(rootDir: string, writeLog: Logger): FeedStore {
+  return {
+    async read<T>(fileName: string): Promise<T> {
+      const filePath = path.join(rootDir, fileName);
+      try {
+        const data = fs.readFileSync(filePath, 'utf-8');
+        return JSON.parse(data);
+      } catch (error: any) {
+        if (error.code === 'ENOENT') throw new FileNotFoundError(fileName);
+        console.error(`Error reading ${filePath}:`, error);
+        throw error;
+      }
+    },
+
+    // Stage every file next to its target first, then rename into place
+    async writeBatch(files: FileUpdate[]): Promise<void> {
+      const staged: { tempPath: string; filePath: string }[] = [];
+      try {
+        for (const file of files) {
+          const filePath = path.join(rootDir, file.path);
+          const tempPath = `${filePath}.tmp`;
+          fs.writeFileSync(tempPath, JSON.stringify(file.content, null, 2), 'utf-8');
+          staged.push({ tempPath, filePath });
+        }
+      } catch (error) {
+        for (const { tempPath } of staged) {
+          fs.rmSync(tempPath, { force: true });
+        }
+        console.error('Error staging files:', error);
+        throw error;
+      }
+
+      for (const { tempPath, filePath } of staged) {
+        fs.renameSync(tempPath, filePath);
+        writeLog(`✓ Updated ${path.basename(filePath)}`);
+      }
+    },
+
+    // Lock file created exclusively; a stale one is taken over once it expires
+    async acquireLease(ttlMs: number): Promise<FeedLease | null> {
+      const lockPath = path.join(rootDir, LEASE_FILE);
+      const lease = newLease(ttlMs);
+
+      try {
+        fs.writeFileSync(lockPath, JSON.stringify(lease), { encoding: 'utf-8', flag: 'wx' });
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') throw error;
+        const current: LeaseRecord = JSON.parse(fs.readFileSync(lockPath, 'utf-8'));
+        if (!isExpired(current)) return null;
+        writeLog(`⚠ Taking over expired lease held by ${current.holder}`);
+        fs.writeFileSync(lockPath, JSON.stringify(lease), 'utf-8');
+      }
+
+      return {
+        ...lease,
+        async release() {
+          const current: LeaseRecord = JSON.parse(fs.readFileSync(lockPath, 'utf-8'));
+          if (current.holder === lease.holder) {
+            fs.rmSync(lockPath, { force: true });
+          }
+        },
+      };
+    },
+  };
+}
+
+// ============================================================================
+// IN-MEMORY
+// ============================================================================
+
+// Fixture-backed store for exercising the pipeline without disk or GitHub
+export function createMemoryStore(initial: Record<string, any> = {}): MemoryFeedStore {
+  const files = new Map<string, string>(
+    Object.entries(initial).map(([fileName, content]) => [fileName, JSON.stringify(content)])
+  );
+  let lease: LeaseRecord | null = null;
+
+  return {
+    async read<T>(fileName: string): Promise<T> {
+      const content = files.get(fileName);
+      if (content === undefined) {
+        throw new FileNotFoundError(fileName);
+      }
+      return JSON.parse(content);
+    },
+
+    async writeBatch(batch: FileUpdate[]): Promise<void> {
+      const serialized = batch.map((file) => [file.path, JSON.stringify(file.content)] as const);
+      for (const [fileName, content] of serialized) {
+        files.set(fileName, content);
+      }
+    },
+
+    async acquireLease(ttlMs: number): Promise<FeedLease | null> {
+      if (lease && !isExpired(lease)) return null;
+      const acquired = newLease(ttlMs);
+      lease = acquired;
+      return {
+        ...acquired,
+        async release() {
+          if (lease?.holder === acquired.holder) lease = null;
+        },
+      };
+    },
+
+    dump(): Record<string, any> {
+      const result: Record<string, any> = {};
+      for (const [fileName, content] of files) {
+        result[fileName] = JSON.parse(content);
+      }
+      return result;
+    },
+  };
+}
+
+// ============================================================================
+// GITHUB
+// ============================================================================
+
+export function createGitHubStore(options: GitHubStoreOptions, writeLog: Logger): FeedStore {
+  const { token, repo, branch, author } = options;
+  const branchRef = `heads/${branch}`;
+  const leaseRef = `leases/${branch}`;        // one lease per branch so staging and production don't block each other
+
+  // Blob sha of each file as first read (null when missing), checked before committing over it
+  const readShas = new Map<string, string | null>();
+
+  async function github(method: string, apiPath: string, body?: any): Promise<Response> {
+    return fetch(`https://api.github.com/repos/${repo}/${apiPath}`, {
+      method,
+      headers: {
+        'Authorization': `token ${token}`,
+        'Accept': 'application/vnd.github.v3+json',
+        'Content-Type': 'application/json',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  async function githubJSON(method: string, apiPath: string, failure: string, body?: any): Promise<any> {
+    const response = await github(method, apiPath, body);
+    if (!response.ok) {
+      throw new Error(`${failure}: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  async function readJSONFromGitHub<T>(fileName: string): Promise<T> {
+    try {
+      const response = await github('GET', `contents/${fileName}?ref=${encodeURIComponent(branch)}`);
+      if (response.status === 404) {
+        if (!readShas.has(fileName)) readShas.set(fileName, null);
+        throw new FileNotFoundError(fileName);
+      }
+      if (!response.ok) {
+        throw new Error(`GitHub API error: ${response.status}`);
+      }
+      const data: any = await response.json();
+      if (!readShas.has(fileName)) readShas.set(fileName, data.sha);
+      // Files over 1 MB come back without inline content; the blob API serves up to 100 MB
+      const encoded = data.encoding === 'base64' && data.content
+        ? data.content
+        : (await githubJSON('GET', `git/blobs/${data.sha}`, `Failed to read blob for ${fileName}`)).content;
+      const content = Buffer.from(encoded, 'base64').toString('utf-8');
+      return JSON.parse(content);
+    } catch (error) {
+      console.error(`Error reading ${fileName} from GitHub:`, error);
+      throw error;
+    }
+  }
+
+  // Files of the batch that moved on `treeSha` since this store read them
+  async function conflictingPaths(files: FileUpdate[], treeSha: string): Promise<string[]> {
+    const readPaths = files.map((file) => file.path).filter((filePath) => readShas.has(filePath));
+    if (readPaths.length === 0) {
+      return [];
+    }
+    const treeData = await githubJSON('GET', `git/trees/${treeSha}?recursive=1`, 'Failed to get tree');
+    const headShas = new Map<string, string>(treeData.tree.map((entry: any) => [entry.path, entry.sha]));
+    return readPaths.filter((filePath) => (headShas.get(filePath) ?? null) !== readShas.get(filePath));
+  }
+
+  // Blobs are created once; on a ref conflict the same tree entries are re-applied to the new head,
+  // unless the new commits touched a file this run read, which fails with WriteConflictError
+  async function commitMultipleFiles(files: FileUpdate[], message?: string): Promise<void> {
+    try {
+      writeLog(`Committing ${files.length} files in a single commit...`);
+
+      // Create blobs for each file
+      const tree = [];
+      for (const file of files) {
+        const blobData = await githubJSON('POST', 'git/blobs', `Failed to create blob for ${file.path}`, {
+          content: JSON.stringify(file.content, null, 2),
+          encoding: 'utf-8',
+        });
+        tree.push({
+          path: file.path,
+          mode: '100644',
+          type: 'blob',
+          sha: blobData.sha,
+        });
+      }
+
+      for (let attempt = 1; attempt <= COMMIT_ATTEMPTS; attempt++) {
+        // Get latest commit SHA and its tree
+        const refData = await githubJSON('GET', `git/ref/${branchRef}`, 'Failed to get ref');
+        const latestCommitSha = refData.object.sha;
+        const commitData = await githubJSON('GET', `git/commits/${latestCommitSha}`, 'Failed to get commit');
+
+        const conflicts = await conflictingPaths(files, commitData.tree.sha);
+        if (conflicts.length > 0) {
+          // Forget them so the caller's re-read records the new versions
+          conflicts.forEach((filePath) => readShas.delete(filePath));
+          throw new WriteConflictError(conflicts);
+        }
+
+        const treeData = await githubJSON('POST', 'git/trees', 'Failed to create tree', {
+          base_tree: commitData.tree.sha,
+          tree,
+        });
+
+        const newCommitData = await githubJSON('POST', 'git/commits', 'Failed to create commit', {
+          message: message || `Update data files - ${new Date().toISOString()}`,
+          tree: treeData.sha,
+          parents: [latestCommitSha],
+          ...(author ? { author, committer: author } : {}),
+        });
+
+        // Fast-forward only: 422 means the branch moved since we read it
+        const updateRefResponse = await github('PATCH', `git/refs/${branchRef}`, {
+          sha: newCommitData.sha,
+          force: false,
+        });
+
+        if (updateRefResponse.ok) {
+          tree.forEach((entry) => readShas.set(entry.path, entry.sha));
+          writeLog(`✓ Successfully committed ${files.length} files in single commit`);
+          return;
+        }
+
+        if (updateRefResponse.status !== 422 || attempt === COMMIT_ATTEMPTS) {
+          throw new Error(`Failed to update ref: ${updateRefResponse.status}`);
+        }
+
+        writeLog(`⚠ ${branch} moved during commit (attempt ${attempt}/${COMMIT_ATTEMPTS}), retrying on latest head...`);
+        await delay(Math.pow(2, attempt - 1) * 1000);
+      }
+    } catch (error) {
+      console.error('Error committing files:', error);
+      throw error;
+    }
+  }
+
+  // The lease is a ref pointing at a commit whose message holds the lease record.
+  // Creating a ref is atomic, and a stale lease is replaced with a fast-forward onto it, so
+  // two runs racing for the same expired lease cannot both win.
+  async function acquireLease(ttlMs: number): Promise<FeedLease | null> {
+    const lease = newLease(ttlMs);
+
+    const refData = await githubJSON('GET', `git/ref/${branchRef}`, 'Failed to get ref');
+    const commitData = await githubJSON('GET', `git/commits/${refData.object.sha}`, 'Failed to get commit');
+
+    async function createLeaseCommit(parents: string[]): Promise<string> {
+      const data = await githubJSON('POST', 'git/commits', 'Failed to create lease commit', {
+        message: JSON.stringify(lease),
+        tree: commitData.tree.sha,
+        parents,
+      });
+      return data.sha;
+    }
+
+    const created = await github('POST', 'git/refs', {
+      ref: `refs/${leaseRef}`,
+      sha: await createLeaseCommit([]),
+    });
+
+    if (!created.ok) {
+      if (created.status !== 422) {
+        throw new Error(`Failed to create lease ref: ${created.status}`);
+      }
+
+      const heldRef = await githubJSON('GET', `git/ref/${leaseRef}`, 'Failed to read lease ref');
+      const leaseCommit = await githubJSON('GET', `git/commits/${heldRef.object.sha}`, 'Failed to read lease');
+      const current: LeaseRecord = JSON.parse(leaseCommit.message);
+      if (!isExpired(current)) {
+        return null;
+      }
+
+      writeLog(`⚠ Taking over expired lease held by ${current.holder}`);
+      const takeover = await github('PATCH', `git/refs/${leaseRef}`, {
+        sha: await createLeaseCommit([heldRef.object.sha]),
+        force: false,
+      });
+      if (takeover.status === 422) {
+        return null;
+      }
+      if (!takeover.ok) {
+        throw new Error(`Failed to take over lease: ${takeover.status}`);
+      }
+    }
+
+    return {
+      ...lease,
+      async release() {
+        const heldRef = await githubJSON('GET', `git/ref/${leaseRef}`, 'Failed to read lease ref');
+        const leaseCommit = await githubJSON('GET', `git/commits/${heldRef.object.sha}`, 'Failed to read lease');
+        if (JSON.parse(leaseCommit.message).holder !== lease.holder) {
+          return;
+        }
+        const response = await github('DELETE', `git/refs/${leaseRef}`);
+        if (!response.ok) {
+          throw new Error(`Failed to release lease: ${response.status}`);
+        }
+      },
+    };
+  }
+
+  return {
+    read: readJSONFromGitHub,
+    writeBatch: commitMultipleFiles,
+    acquireLease,
+  };
+}
+
+// Both must be set to override the token owner as commit author
+function authorFromEnv(): CommitAuthor | undefined {
+  return process.env.GITHUB_AUTHOR_NAME && process.env.GITHUB_AUTHOR_EMAIL
+    ? { name: process.env.GITHUB_AUTHOR_NAME, email: process.env.GITHUB_AUTHOR_EMAIL }
+    : undefined;
+}
+
+// Cron and API routes share one repo/branch configuration
+export function createGitHubStoreFromEnv(writeLog: Logger): FeedStore {
+  return createGitHubStore({
+    token: process.env.GITHUB_TOKEN || '',
+    repo: process.env.GITHUB_REPO || '',
+    branch: process.env.GITHUB_BRANCH || 'main',
+    author: authorFromEnv(),
+  }, writeLog);
+}
+
+// Per-device state written by public routes lives in its own (private) repository, so those
+// writes never commit to the published data or wait on the cron's lease
+export function createDeviceStoreFromEnv(writeLog: Logger): FeedStore {
+  return createGitHubStore({
+    token: process.env.GITHUB_DEVICE_TOKEN || process.env.GITHUB_TOKEN || '',
+    repo: process.env.GITHUB_DEVICE_REPO || '',
+    branch: process.env.GITHUB_DEVICE_BRANCH || 'main',
+    author: authorFromEnv(),
+  }, writeLog);
+}
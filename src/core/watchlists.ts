@@ -0,0 +1,163 @@
+import { createHash } from 'crypto';
+import { EXCHANGE_ADAPTERS } from './exchange-adapters';
+import { NewListing, RETENTION_DAYS, normalizeSymbol } from './listings';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Watchlist {
+  assets: string[];                             // base assets, e.g. ["SKR", "JUP"]
+  exchanges: string[];                          // exchange display names; empty means any exchange
+  updatedAt: string;
+}
+
+// Keyed by watchlistKey(deviceId) so the published file never exposes device ids
+export interface WatchlistsData {
+  watchlists: Record<string, Watchlist>;
+}
+
+export interface WatchlistAlert {
+  id: string;
+  asset: string;
+  exchange: string;
+  marketType: NewListing['marketType'];
+  symbol: string;
+  quoteAsset: string;
+  isFirstListing?: boolean;
+  detectedAt: string;
+}
+
+export interface WatchlistAlertsData {
+  lastUpdated: string;
+  alerts: Record<string, WatchlistAlert[]>;
+}
+
+export interface WatchlistInput {
+  assets: string[];
+  exchanges: string[];
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const WATCHLISTS_FILE = 'watchlists.json';
+export const WATCHLIST_ALERTS_FILE = 'watchlist-alerts.json';
+
+const MAX_WATCHED_ASSETS = 50;
+const DEVICE_ID_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+const ASSET_PATTERN = /^[A-Z0-9]{1,20}$/;
+
+export const EMPTY_WATCHLISTS: WatchlistsData = { watchlists: {} };
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+// The device id is the only credential a watchlist has, so it must be long and random
+export function isValidDeviceId(deviceId: unknown): deviceId is string {
+  return typeof deviceId === 'string' && DEVICE_ID_PATTERN.test(deviceId);
+}
+
+export function watchlistKey(deviceId: string): string {
+  return createHash('sha256').update(deviceId).digest('hex');
+}
+
+// Accepts exchange ids ("gateio") or display names ("Gate.io") and stores display names
+function resolveExchange(value: string): string | null {
+  const wanted = value.trim().toLowerCase();
+  const adapter = EXCHANGE_ADAPTERS.find(
+    (a) => a.id === wanted || a.name.toLowerCase() === wanted
+  );
+  return adapter ? adapter.name : null;
+}
+
+export function parseWatchlistInput(body: any): WatchlistInput {
+  if (!body || !Array.isArray(body.assets) || body.assets.length === 0) {
+    throw new Error('assets must be a non-empty array of symbols');
+  }
+  if (body.assets.length > MAX_WATCHED_ASSETS) {
+    throw new Error(`At most ${MAX_WATCHED_ASSETS} assets can be watched`);
+  }
+
+  const assets = [...new Set<string>(body.assets.map((asset: unknown) => normalizeSymbol(String(asset))))];
+  const invalidAssets = assets.filter((asset) => !ASSET_PATTERN.test(asset));
+  if (invalidAssets.length > 0) {
+    throw new Error(`Invalid asset symbol(s): ${invalidAssets.join(', ')}`);
+  }
+
+  const rawExchanges: unknown[] = body.exchanges === undefined ? [] : body.exchanges;
+  if (!Array.isArray(rawExchanges)) {
+    throw new Error('exchanges must be an array');
+  }
+
+  const exchanges: string[] = [];
+  for (const value of rawExchanges) {
+    const name = resolveExchange(String(value));
+    if (!name) {
+      throw new Error(`Unknown exchange: ${value}`);
+    }
+    if (!exchanges.includes(name)) exchanges.push(name);
+  }
+
+  return { assets, exchanges };
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+export function matchWatchlists(
+  watchlists: Record<string, Watchlist>,
+  listings: NewListing[]
+): Record<string, WatchlistAlert[]> {
+  const matches: Record<string, WatchlistAlert[]> = {};
+
+  for (const [key, watchlist] of Object.entries(watchlists)) {
+    const alerts = listings
+      .filter((listing) => watchlist.assets.includes(listing.baseAsset))
+      .filter((listing) => watchlist.exchanges.length === 0 || watchlist.exchanges.includes(listing.exchange))
+      .map((listing): WatchlistAlert => ({
+        id: `${listing.exchange}:${listing.marketType}:${listing.symbol}:${listing.detectedAt}`,
+        asset: listing.baseAsset,
+        exchange: listing.exchange,
+        marketType: listing.marketType,
+        symbol: listing.symbol,
+        quoteAsset: listing.quoteAsset,
+        isFirstListing: listing.isFirstListing,
+        detectedAt: listing.detectedAt,
+      }));
+
+    if (alerts.length > 0) {
+      matches[key] = alerts;
+    }
+  }
+
+  return matches;
+}
+
+// Appends new matches, drops alerts past retention and alerts of deleted watchlists
+export function mergeWatchlistAlerts(
+  previous: Record<string, WatchlistAlert[]>,
+  matches: Record<string, WatchlistAlert[]>,
+  watchlists: Record<string, Watchlist>
+): Record<string, WatchlistAlert[]> {
+  const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  const merged: Record<string, WatchlistAlert[]> = {};
+
+  for (const key of Object.keys(watchlists)) {
+    const alerts: WatchlistAlert[] = [];
+    for (const alert of [...(matches[key] || []), ...(previous[key] || [])]) {
+      if (new Date(alert.detectedAt).getTime() < cutoff) continue;
+      if (alerts.some((existing) => existing.id === alert.id)) continue;
+      alerts.push(alert);
+    }
+
+    if (alerts.length > 0) {
+      merged[key] = alerts;
+    }
+  }
+
+  return merged;
+}
@@ -0,0 +1,178 @@
+import { createHash, createHmac, randomUUID } from 'crypto';
+import { FeedFetchError, FetchLike, fetchWithTimeout, toFeedError, withRetry } from './http';
+import { NewListing } from './listings';
+import { Logger } from './logger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface WebhookPayload {
+  id: string;                                   // stable per set of listings, for receiver-side dedup
+  event: 'new_listings';
+  sentAt: string;
+  listings: NewListing[];
+}
+
+export interface WebhookDelivery {
+  deliveryId: string;
+  eventId: string;
+  url: string;                                  // query string stripped, it may carry credentials
+  attemptedAt: string;
+  success: boolean;
+  attempts: number;
+  httpStatus?: number;
+  error?: string;
+  listingCount: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const WEBHOOK_URLS = (process.env.WEBHOOK_URLS || '')
+  .split(',')
+  .map((url) => url.trim())
+  .filter((url) => url.length > 0);
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || '';
+const WEBHOOK_ATTEMPTS = Number(process.env.WEBHOOK_RETRIES) || 3;
+
+export const SIGNATURE_HEADER = 'X-Listings-Signature';
+export const TIMESTAMP_HEADER = 'X-Listings-Timestamp';
+
+// ============================================================================
+// SIGNING
+// ============================================================================
+
+// Receivers recompute this over `<timestamp>.<raw body>` and compare in constant time. The
+// timestamp (Unix seconds) is signed so a captured delivery can't be replayed later.
+export function signPayload(body: string, secret: string, timestamp: number): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+function eventId(listings: NewListing[]): string {
+  const keys = listings
+    .map((l) => `${l.exchange}:${l.marketType}:${l.symbol}:${l.detectedAt}`)
+    .sort()
+    .join('|');
+  return createHash('sha256').update(keys).digest('hex').slice(0, 16);
+}
+
+function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    return 'invalid-url';
+  }
+}
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+// Client errors other than timeouts and rate limits won't succeed on retry
+function isRetryable(error: unknown): boolean {
+  const status = toFeedError(error).httpStatus;
+  return status === undefined || status >= 500 || status === 408 || status === 429;
+}
+
+async function deliver(
+  url: string,
+  payload: WebhookPayload,
+  body: string,
+  fetchImpl?: FetchLike
+): Promise<WebhookDelivery> {
+  const deliveryId = randomUUID();
+  let attempts = 0;
+  let httpStatus: number | undefined;
+
+  try {
+    await withRetry(async () => {
+      attempts++;
+      const timestamp = Math.floor(Date.now() / 1000);
+      const response = await fetchWithTimeout(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [SIGNATURE_HEADER]: signPayload(body, WEBHOOK_SECRET, timestamp),
+          [TIMESTAMP_HEADER]: String(timestamp),
+          'X-Listings-Event': payload.event,
+          'X-Listings-Delivery': deliveryId,
+        },
+        body,
+      }, undefined, fetchImpl);
+      httpStatus = response.status;
+      if (!response.ok) {
+        throw new FeedFetchError({
+          category: 'http_status',
+          message: `HTTP ${response.status}`,
+          httpStatus: response.status,
+          url,
+        });
+      }
+    }, WEBHOOK_ATTEMPTS, isRetryable);
+
+    return {
+      deliveryId,
+      eventId: payload.id,
+      url: redactUrl(url),
+      attemptedAt: payload.sentAt,
+      success: true,
+      attempts,
+      httpStatus,
+      listingCount: payload.listings.length,
+    };
+  } catch (error) {
+    return {
+      deliveryId,
+      eventId: payload.id,
+      url: redactUrl(url),
+      attemptedAt: payload.sentAt,
+      success: false,
+      attempts,
+      httpStatus,
+      error: toFeedError(error).message,
+      listingCount: payload.listings.length,
+    };
+  }
+}
+
+// POSTs the new listings to every configured webhook; never throws, failures land in the log.
+// Called once the listings are committed, so a failed write never announces them; a run that
+// dies between the write and the send skips them.
+export async function notifyWebhooks(
+  listings: NewListing[],
+  writeLog: Logger,
+  fetchImpl?: FetchLike
+): Promise<WebhookDelivery[]> {
+  if (listings.length === 0 || WEBHOOK_URLS.length === 0) {
+    return [];
+  }
+
+  if (!WEBHOOK_SECRET) {
+    writeLog('⚠ WEBHOOK_URLS is set but WEBHOOK_SECRET is not - refusing to send unsigned webhooks');
+    return [];
+  }
+
+  const payload: WebhookPayload = {
+    id: eventId(listings),
+    event: 'new_listings',
+    sentAt: new Date().toISOString(),
+    listings,
+  };
+  const body = JSON.stringify(payload);
+
+  writeLog(`Sending ${listings.length} new listing(s) to ${WEBHOOK_URLS.length} webhook(s)...`);
+  const deliveries = await Promise.all(WEBHOOK_URLS.map((url) => deliver(url, payload, body, fetchImpl)));
+
+  for (const delivery of deliveries) {
+    if (delivery.success) {
+      writeLog(`✓ Webhook ${delivery.url} delivered (${delivery.attempts} attempt(s))`);
+    } else {
+      writeLog(`✗ Webhook ${delivery.url} failed after ${delivery.attempts} attempt(s): ${delivery.error}`);
+    }
+  }
+
+  return deliveries;
+}
@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { EXCHANGE_ADAPTERS, ListedPair } from '../src/core/exchange-adapters';
+import {
+  ExchangeFetch,
+  ListingsUpdate,
+  QuarantinedSnapshot,
+  StoredExchangeSnapshot,
+  checkSnapshotSanity,
+  diffExchangeListings,
+  toStoredSnapshot,
+} from '../src/core/listings';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+function upbitPairs(count: number): ListedPair[] {
+  return Array.from({ length: count }, (_, i) => ({ symbol: `KRW-A${i}`, baseAsset: `A${i}`, quoteAsset: 'KRW' }));
+}
+
+// Upbit answers with the given pairs; every other adapter fails, which keeps its old data
+function upbitFetches(pairs: ListedPair[]): ExchangeFetch[] {
+  return EXCHANGE_ADAPTERS.map((adapter) =>
+    adapter.id === 'upbit'
+      ? { fetched: { spot: pairs }, responseTimeMs: 1 }
+      : { error: new Error('not served'), responseTimeMs: 1 }
+  );
+}
+
+// Feeds one run's stored snapshot and quarantine into the next, like consecutive cron runs
+async function runSequence(initial: number, responses: number[]): Promise<ListingsUpdate[]> {
+  let previous: Record<string, StoredExchangeSnapshot> = { upbit: { spot: upbitPairs(initial).map((p) => p.symbol) } };
+  let quarantine: QuarantinedSnapshot[] = [];
+  const updates: ListingsUpdate[] = [];
+
+  for (const count of responses) {
+    const update = await diffExchangeListings(upbitFetches(upbitPairs(count)), previous, [], quarantine, () => {});
+    previous = { upbit: toStoredSnapshot('upbit', update.exchanges.upbit) };
+    quarantine = update.quarantined;
+    updates.push(update);
+  }
+  return updates;
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+test('checkSnapshotSanity flags large size changes and ignores small markets', () => {
+  assert.match(checkSnapshotSanity(200, 100, 0, 100)!, /from 200 to 100 pairs/);
+  assert.match(checkSnapshotSanity(200, 0, 0, 200)!, /from 200 to 0 pairs/);
+  assert.match(checkSnapshotSanity(0, 200, 200, 0)!, /grew from 0 to 200/);
+  assert.match(checkSnapshotSanity(200, 200, 30, 30)!, /30 added and 30 removed/);
+  assert.equal(checkSnapshotSanity(200, 202, 2, 0), null);
+  assert.equal(checkSnapshotSanity(40, 0, 0, 40), null);
+});
+
+test('quarantines a truncated snapshot without publishing its diff', async () => {
+  const [update] = await runSequence(200, [100]);
+
+  assert.deepEqual(update.newListings, []);
+  assert.deepEqual(update.delistings, []);
+  assert.equal(update.quarantined.length, 1);
+  assert.equal(update.quarantined[0].exchange, 'Upbit');
+  assert.equal(update.quarantined[0].currentCount, 100);
+  assert.equal(update.exchanges.upbit.spot!.length, 200);
+});
+
+test('rebaselines when the same suspicious size repeats within 2%', async () => {
+  const [, confirmed, next] = await runSequence(200, [100, 101, 101]);
+
+  assert.deepEqual(confirmed.newListings, []);
+  assert.deepEqual(confirmed.delistings, []);
+  assert.deepEqual(confirmed.quarantined, []);
+  assert.equal(confirmed.exchanges.upbit.spot!.length, 101);
+
+  // The adopted baseline is the new normal: an identical run is quiet
+  assert.deepEqual(next.newListings, []);
+  assert.deepEqual(next.delistings, []);
+  assert.deepEqual(next.quarantined, []);
+});
+
+test('keeps quarantining a size that moves by more than 2%', async () => {
+  const [, second] = await runSequence(200, [100, 110]);
+
+  assert.equal(second.quarantined.length, 1);
+  assert.equal(second.exchanges.upbit.spot!.length, 200);
+});
+
+test('never adopts an emptied snapshot as the baseline', async () => {
+  const [first, second, recovered] = await runSequence(200, [0, 0, 200]);
+
+  for (const update of [first, second]) {
+    assert.equal(update.quarantined.length, 1);
+    assert.deepEqual(update.delistings, []);
+    assert.equal(update.exchanges.upbit.spot!.length, 200);
+  }
+  assert.equal(second.quarantined[0].detectedAt, first.quarantined[0].detectedAt);
+
+  // Recovery publishes nothing, as the stored snapshot never changed
+  assert.deepEqual(recovered.newListings, []);
+  assert.deepEqual(recovered.delistings, []);
+  assert.deepEqual(recovered.quarantined, []);
+});
@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Response } from 'node-fetch';
+import { createUpdateAllHandler } from '../api/cron/update-all';
+import { FetchLike } from '../src/core/http';
+import { createStubProvider } from '../src/core/push';
+import { FeedStore, WriteConflictError, createMemoryStore } from '../src/core/store';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const CRON_SECRET = 'test-secret';
+process.env.CRON_SECRET = CRON_SECRET;
+
+const UPBIT_MARKETS = Array.from({ length: 60 }, (_, i) => `KRW-A${i}`);
+
+function initialFiles(): Record<string, any> {
+  return {
+    'cex-listings.json': { lastUpdated: null, exchanges: { upbit: { spot: UPBIT_MARKETS } } },
+    'new-listings.json': { lastChecked: null, listings: [] },
+    'delistings.json': { lastChecked: null, delistings: [] },
+    'notifications.json': [],
+  };
+}
+
+// Serves Upbit with one new market; every other host answers like a region block
+function fixtureFetch(requested: string[]): FetchLike {
+  return async (url) => {
+    requested.push(url);
+    if (url === 'https://api.upbit.com/v1/market/all') {
+      const markets = [...UPBIT_MARKETS, 'KRW-SKR'].map((market) => ({ market, market_warning: 'NONE' }));
+      return new Response(JSON.stringify(markets), { status: 200, headers: { 'Content-Type': 'application/json' } });
+    }
+    return new Response('<html>Forbidden</html>', { status: 403, headers: { 'Content-Type': 'text/html' } });
+  };
+}
+
+function fakeResponse() {
+  const res: any = { statusCode: 0, body: undefined, headers: {} };
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  res.json = (body: any) => { res.body = body; return res; };
+  res.setHeader = (name: string, value: string) => { res.headers[name] = value; };
+  res.end = () => res;
+  return res;
+}
+
+function cronRequest() {
+  return { method: 'GET', headers: { authorization: `Bearer ${CRON_SECRET}` }, query: { feeds: 'listings' } };
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+test('detects a new Upbit listing, then commits nothing on an identical run', async () => {
+  const store = createMemoryStore(initialFiles());
+  const requested: string[] = [];
+  const stub = createStubProvider(() => {});
+  const handler = createUpdateAllHandler({
+    store,
+    writeLog: () => {},
+    pushProviders: { expo: stub, fcm: stub },
+    fetch: fixtureFetch(requested),
+  });
+
+  const first = fakeResponse();
+  await handler(cronRequest(), first);
+  assert.equal(first.statusCode, 200);
+  assert.ok(requested.includes('https://api.upbit.com/v1/market/all'));
+
+  const files = store.dump();
+  const listings = files['new-listings.json'].listings;
+  assert.deepEqual(
+    listings.map((l: any) => [l.exchange, l.symbol, l.baseAsset, l.quoteAsset]),
+    [['Upbit', 'KRW-SKR', 'SKR', 'KRW']]
+  );
+  assert.ok(files['notifications.json'].some((n: any) => n.id.startsWith('auto-listing-skr-upbit-')));
+  assert.equal(files['status.json'].feeds['upbit-spot'].status, 'success');
+  assert.equal(files['status.json'].status, 'partial_success');
+
+  const second = fakeResponse();
+  await handler(cronRequest(), second);
+  assert.equal(second.statusCode, 200);
+  assert.deepEqual(second.body.changedFiles, []);
+});
+
+test('answers 409 while another run holds the lease', async () => {
+  const store = createMemoryStore(initialFiles());
+  const lease = await store.acquireLease(60 * 1000);
+  const handler = createUpdateAllHandler({ store, writeLog: () => {}, fetch: fixtureFetch([]), leaseAttempts: 1 });
+
+  const res = fakeResponse();
+  await handler(cronRequest(), res);
+  assert.equal(res.statusCode, 409);
+  await lease!.release();
+});
+
+test('re-merges onto a file pushed between read and commit instead of failing', async () => {
+  const store = createMemoryStore(initialFiles());
+  const handEdit = {
+    exchange: 'Upbit', marketType: 'spot', symbol: 'KRW-OLD', baseAsset: 'OLD', quoteAsset: 'KRW',
+    detectedAt: new Date().toISOString(),
+  };
+
+  // The first commit loses the race against a hand edit to delistings.json
+  let pushed = false;
+  const racingStore: FeedStore = {
+    ...store,
+    async writeBatch(files, message) {
+      if (!pushed) {
+        pushed = true;
+        await store.writeBatch([{ path: 'delistings.json', content: { lastChecked: null, delistings: [handEdit] } }]);
+        throw new WriteConflictError(['delistings.json']);
+      }
+      return store.writeBatch(files, message);
+    },
+  };
+  const stub = createStubProvider(() => {});
+  const handler = createUpdateAllHandler({
+    store: racingStore,
+    writeLog: () => {},
+    pushProviders: { expo: stub, fcm: stub },
+    fetch: fixtureFetch([]),
+  });
+
+  const res = fakeResponse();
+  await handler(cronRequest(), res);
+  assert.equal(res.statusCode, 200);
+
+  const files = store.dump();
+  assert.deepEqual(files['delistings.json'].delistings.map((d: any) => d.symbol), ['KRW-OLD']);
+  assert.deepEqual(files['new-listings.json'].listings.map((l: any) => l.symbol), ['KRW-SKR']);
+});